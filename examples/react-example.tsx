@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import CropImagePro from "crop-image-pro";
+import CropImagePro, { CropCancelledError } from "crop-image-pro";
 // CSS is embedded in the library, but you can optionally import standalone CSS:
 // import "crop-image-pro/css";
 
@@ -54,7 +54,7 @@ function ImageCropperExample() {
         URL.revokeObjectURL(preview);
       }
     } catch (error) {
-      if ((error as Error).message !== "User cancelled") {
+      if (!(error instanceof CropCancelledError)) {
         console.error("Error cropping image:", error);
         alert("Failed to process image");
       }
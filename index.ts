@@ -5,5 +5,44 @@
  * The main source is in src/cropImagePro.ts
  */
 
-export { CropImagePro as default, CropImagePro } from "./src/cropImagePro";
-export type { CropImageProOptions, CropResult } from "./src/cropImagePro";
+export {
+  CropImagePro as default,
+  CropImagePro,
+  cropImage,
+  cropLocales,
+  registerDecoder,
+  CropError,
+  CropCancelledError,
+  ImageDecodeError,
+  HeicConversionError,
+  CanvasUnavailableError,
+  EncodeError,
+  LowResolutionError,
+} from "./src/cropImagePro";
+export type {
+  CropImageProOptions,
+  CropResult,
+  CropOpenOptions,
+  CropEventMap,
+  CropEventHandler,
+  CropRect,
+  CropUnit,
+  CropAspectPreset,
+  CropSizeLimit,
+  CropLocale,
+  CropLabels,
+  CropLowResolutionDetails,
+  CropEditorState,
+  CropFlip,
+  CropOutputOptions,
+  CropMetadata,
+  CropOutputType,
+  CropOutputSize,
+  CropVariant,
+  CropRecipe,
+  CropInitialCrop,
+  CropImageOptions,
+  CropImageSource,
+  CropDecoder,
+  CropErrorCode,
+} from "./src/cropImagePro";
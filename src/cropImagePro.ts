@@ -3,13 +3,30 @@
  * Vanilla JavaScript/TypeScript implementation with HEIC support
  */
 
-import heic2any from "heic2any";
-
 export interface CropImageProOptions {
-  aspectRatio?: number; // e.g., 1 for square, 16/9 for wide
+  aspectRatio?: number; // e.g., 1 for square, 16/9 for wide (locks the crop)
+  aspectRatioPresets?: CropAspectPreset[]; // Preset bar (default: aspectRatio and "free")
+  minAspectRatio?: number; // Narrowest width/height ratio allowed, e.g. 4/5
+  maxAspectRatio?: number; // Widest width/height ratio allowed, e.g. 1.91
+  minCropSize?: CropSizeLimit; // Smallest crop in natural image pixels
+  maxCropSize?: CropSizeLimit; // Largest crop in natural image pixels
+  minOutputSize?: CropSizeLimit; // Warn when the crop would be upscaled to this
+  lowResolution?: "warn" | "block"; // Below minOutputSize (default: 'warn')
   maxOutputSize?: number; // maximum width/height for output image (default: 1200)
-  compressionQuality?: number; // JPEG quality 0-1 (default: 0.7)
-  circularCrop?: boolean; // Show circular crop preview
+  compressionQuality?: number; // JPEG/WebP/AVIF quality 0-1 (default: 0.7)
+  outputType?: CropOutputType | "auto"; // Output format (default: 'image/jpeg')
+  maxFileSizeBytes?: number; // Lower quality, then size, until the file fits
+  outputSizes?: CropOutputSize[]; // Extra sizes rendered into CropResult.variants
+  circularCrop?: boolean; // Circular crop, masked to transparent in the output
+  outputBackground?: string; // Fill for transparent areas (JPEG default: '#ffffff')
+  metadata?: CropMetadata; // Source metadata kept in the output (default: 'strip')
+  flip?: CropFlip; // Initial mirroring (default: none)
+  initialCrop?: CropInitialCrop; // Restore a previous CropResult.crop
+  locale?: CropLocale; // Bundled UI strings (default: 'en')
+  labels?: Partial<CropLabels>; // Override individual UI strings
+  dir?: "ltr" | "rtl"; // Layout direction (default: from locale)
+  shadowDom?: boolean; // Render inside a shadow root (default: false)
+  nonce?: string; // CSP nonce for the <style> element
   theme?: {
     primaryColor?: string; // default: '#073d44'
     backgroundColor?: string; // default: '#ffffff'
@@ -17,17 +34,1282 @@ export interface CropImageProOptions {
   };
 }
 
+// "preserve-safe" copies only the description and copyright of a JPEG
+// source into JPEG output; everything else, e.g. GPS and camera data, is dropped
+export type CropMetadata = "strip" | "preserve-safe";
+
+// A number applies to both sides
+export type CropSizeLimit = number | { width?: number; height?: number };
+
+export type CropAspectPreset = { label: string; value: number } | "free";
+
+export type CropLocale = "en" | "de" | "fr" | "ar";
+
+// Every string the editor shows
+export interface CropLabels {
+  title: string;
+  close: string;
+  loading: string;
+  cancel: string;
+  save: string;
+  zoomIn: string;
+  zoomOut: string;
+  rotate: string;
+  straighten: string;
+  flipHorizontal: string;
+  flipVertical: string;
+  aspectRatio: string;
+  aspectRatioPreset: (label: string) => string;
+  free: string;
+  freeAspectRatio: string;
+  swapOrientation: string;
+  image: string;
+  cropArea: string;
+  lowResolution: (details: CropLowResolutionDetails) => string;
+}
+
+// Natural pixels; a minimum of 0 means that side has no minimum
+export interface CropLowResolutionDetails {
+  width: number;
+  height: number;
+  minWidth: number;
+  minHeight: number;
+  blocked: boolean;
+}
+
 export interface CropResult {
   previewUrl: string;
   file: File;
   blob: Blob;
+  variants?: CropVariant[]; // One per outputSizes entry, in the same order
+  crop?: CropRecipe; // Editor only: pass back as initialCrop to re-edit
+}
+
+export interface CropRecipe {
+  rect: CropRect; // natural pixels of the rotated image
+  rotate: number; // 90° steps
+  straighten: number; // fine angle, −45° to 45°
+  flip: Required<CropFlip>;
+  scale: number; // editor zoom (1 = the whole image fits)
+  aspectRatio: number | null; // null if the aspect lock was off
+  imageWidth: number; // natural size of the original image
+  imageHeight: number;
+}
+
+// Only the rect is required; a recipe for a different-sized image is ignored
+export type CropInitialCrop = Pick<CropRecipe, "rect"> &
+  Partial<Omit<CropRecipe, "rect">>;
+
+export interface CropOpenOptions {
+  signal?: AbortSignal; // Aborting closes the editor and rejects open()
+}
+
+export interface CropEventMap {
+  ready: { width: number; height: number; crop: CropRect }; // natural size
+  cropchange: CropRect; // natural pixels, same frame as CropImageOptions.rect
+  zoom: { scale: number };
+  rotate: { rotate: number; straighten: number };
+  aspectlockchange: { locked: boolean; aspectRatio: number | null };
+  save: CropResult;
+  cancel: { reason: CropCancelledError["reason"] };
+  error: Error;
+}
+
+export type CropEventHandler<K extends keyof CropEventMap> = (
+  payload: CropEventMap[K],
+) => void;
+
+export type CropOutputSize = number | { name: string; size: number };
+
+export interface CropVariant {
+  name: string; // the variant name, or its size for plain numbers
+  width: number;
+  height: number;
+  previewUrl: string;
+  file: File;
+  blob: Blob;
+}
+
+export type CropOutputType =
+  "image/jpeg" | "image/png" | "image/webp" | "image/avif";
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CropUnit =
+  | "px" // on-screen pixels within the editor's image area
+  | "natural" // natural pixels of the rotated image (default)
+  | "%"; // percent (0–100) of the rotated image
+
+export interface CropEditorState {
+  crop: CropRect; // natural pixels
+  scale: number; // 1 = the whole image fits the editor
+  rotate: number; // 90° steps
+  straighten: number; // fine angle, −45° to 45°
+  flip: Required<CropFlip>;
+  aspectRatio: number | null; // null while the aspect lock is off
+}
+
+export interface CropFlip {
+  horizontal?: boolean; // mirror left-right
+  vertical?: boolean; // mirror top-bottom
+}
+
+export type CropOutputOptions = Pick<
+  CropImageProOptions,
+  | "maxOutputSize"
+  | "compressionQuality"
+  | "outputType"
+  | "circularCrop"
+  | "outputBackground"
+  | "maxFileSizeBytes"
+  | "outputSizes"
+  | "metadata"
+> & {
+  fileName?: string; // base name for the output file (default: 'cropped')
+};
+
+export interface CropImageOptions {
+  rect: CropRect; // crop area in natural image pixels (of the rotated image)
+  rotate?: number; // clockwise rotation in degrees (default: 0)
+  flip?: CropFlip;
+  output?: CropOutputOptions;
+}
+
+export type CropImageSource = File | Blob | HTMLImageElement;
+
+export type CropErrorCode =
+  | "CROP_CANCELLED"
+  | "IMAGE_DECODE_FAILED"
+  | "HEIC_CONVERSION_FAILED"
+  | "CANVAS_UNAVAILABLE"
+  | "ENCODE_FAILED"
+  | "LOW_RESOLUTION";
+
+/**
+ * Base class for every error open() and cropImage() reject with. Branch on
+ * `code` (or instanceof) rather than the message, which is for developers.
+ */
+export class CropError extends Error {
+  readonly code: CropErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: CropErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The editor was closed without saving: by the user, an AbortSignal or
+ * destroy()
+ */
+export class CropCancelledError extends CropError {
+  readonly reason: "user" | "aborted" | "destroyed";
+
+  constructor(reason: "user" | "aborted" | "destroyed" = "user") {
+    const messages = {
+      user: "User cancelled",
+      aborted: "Crop aborted",
+      destroyed: "Cropper destroyed",
+    };
+    super("CROP_CANCELLED", messages[reason]);
+    this.reason = reason;
+  }
+}
+
+/**
+ * The file could not be read or the browser could not decode it
+ */
+export class ImageDecodeError extends CropError {
+  constructor(cause?: unknown) {
+    super("IMAGE_DECODE_FAILED", "Failed to decode image", cause);
+  }
+}
+
+/**
+ * heic2any failed to convert a HEIC/HEIF file
+ */
+export class HeicConversionError extends CropError {
+  constructor(cause?: unknown) {
+    super("HEIC_CONVERSION_FAILED", "Failed to convert HEIC image", cause);
+  }
+}
+
+/**
+ * No 2D canvas context is available to draw the crop
+ */
+export class CanvasUnavailableError extends CropError {
+  constructor(message = "Could not get canvas context") {
+    super("CANVAS_UNAVAILABLE", message);
+  }
+}
+
+/**
+ * The canvas could not be encoded to a blob
+ */
+export class EncodeError extends CropError {
+  constructor(cause?: unknown) {
+    super("ENCODE_FAILED", "Failed to create blob", cause);
+  }
+}
+
+/**
+ * save() was called while lowResolution: "block" disables saving
+ */
+export class LowResolutionError extends CropError {
+  constructor() {
+    super("LOW_RESOLUTION", "Crop is below minOutputSize");
+  }
 }
 
 type ResolvedTheme = Required<NonNullable<CropImageProOptions["theme"]>>;
-type ResolvedOptions = Omit<Required<CropImageProOptions>, "theme"> & {
+type ResolvedSize = { width: number; height: number };
+type ResolvedOptions = Omit<
+  Required<CropImageProOptions>,
+  | "theme"
+  | "flip"
+  | "outputBackground"
+  | "maxFileSizeBytes"
+  | "initialCrop"
+  | "aspectRatioPresets"
+  | "minAspectRatio"
+  | "maxAspectRatio"
+  | "minCropSize"
+  | "maxCropSize"
+  | "minOutputSize"
+  | "labels"
+  | "nonce"
+> & {
   theme: ResolvedTheme;
+  flip: Required<CropFlip>;
+  initialCrop: CropInitialCrop | null;
+  aspectRatioPresets: CropAspectPreset[];
+  minAspectRatio: number | null;
+  maxAspectRatio: number | null;
+  minCropSize: ResolvedSize;
+  maxCropSize: ResolvedSize;
+  minOutputSize: ResolvedSize;
+  labels: CropLabels;
+  nonce: string | null;
+  outputBackground: string | null;
+  maxFileSizeBytes: number | null;
+};
+type ResolvedOutput = Omit<
+  Required<CropOutputOptions>,
+  "outputType" | "outputBackground" | "maxFileSizeBytes" | "metadata"
+> & {
+  outputType: CropOutputType;
+  outputBackground: string | null;
+  maxFileSizeBytes: number | null;
+  exif: Uint8Array<ArrayBuffer> | null; // APP1 segment written into JPEG output
+};
+
+interface RenderTransform {
+  rect: CropRect;
+  rotate: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+const OUTPUT_EXTENSIONS: Record<CropOutputType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
+
+// JPEG has no alpha channel and browsers flatten transparency to black, so
+// JPEG output without an outputBackground is drawn onto white
+const JPEG_BACKGROUND = "#ffffff";
+
+// Formats to try, in order, when the browser can't encode the requested
+// one. Alpha-capable formats only fall back to other alpha-capable ones.
+const OUTPUT_FALLBACKS: Record<CropOutputType, CropOutputType[]> = {
+  "image/jpeg": ["image/jpeg"],
+  "image/png": ["image/png"],
+  "image/webp": ["image/webp", "image/png"],
+  "image/avif": ["image/avif", "image/webp", "image/png"],
+};
+
+// Bounds for the maxFileSizeBytes search: quality is bisected a fixed
+// number of times, then the output is shrunk at most MAX_RESIZE_STEPS times.
+const MIN_QUALITY = 0.1;
+const QUALITY_SEARCH_STEPS = 6;
+const MAX_RESIZE_STEPS = 5;
+
+// Enough for the signatures below, including an ftyp box with a few brands
+const FORMAT_SNIFF_BYTES = 64;
+// ftyp brands of HEIF images (HEIC is HEIF with HEVC) and of AVIF, which
+// builds on HEIF and shares the generic mif1/msf1 brands
+const HEIF_BRANDS = [
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+];
+const AVIF_BRANDS = ["avif", "avis"];
+// Other names for formats in MIME types and file extensions
+const FORMAT_ALIASES: Record<string, string> = {
+  heif: "heic",
+  "heic-sequence": "heic",
+  "heif-sequence": "heic",
+  jpg: "jpeg",
+  tif: "tiff",
+};
+
+// Exif lives in the first APP segments, well within this many bytes
+const EXIF_SCAN_BYTES = 256 * 1024;
+const EXIF_ORIENTATION = 0x0112;
+// IFD0 fields kept by metadata: "preserve-safe", in ascending tag order
+const SAFE_EXIF_TAGS = [
+  0x010e, // ImageDescription
+  0x8298, // Copyright
+];
+
+const LOSSY_TYPES: string[] = ["image/jpeg", "image/webp", "image/avif"];
+
+/**
+ * Resolves the "auto" output type from the source MIME type: formats that
+ * can carry transparency are kept, everything else becomes JPEG.
+ *
+ * A circular crop needs transparent corners, so unless a background color
+ * is given to flatten onto, JPEG output is promoted to PNG.
+ */
+function resolveOutputType(
+  outputType: CropOutputType | "auto",
+  sourceType: string,
+  needsAlpha = false,
+): CropOutputType {
+  let type: CropOutputType = outputType === "auto" ? "image/jpeg" : outputType;
+  if (
+    outputType === "auto" &&
+    (sourceType === "image/png" ||
+      sourceType === "image/webp" ||
+      sourceType === "image/avif")
+  ) {
+    type = sourceType;
+  }
+  return needsAlpha && type === "image/jpeg" ? "image/png" : type;
+}
+
+/**
+ * Expands a CropSizeLimit to both sides, using the fallback for unset ones
+ */
+function resolveSizeLimit(
+  limit: CropSizeLimit | undefined,
+  fallback: number,
+): ResolvedSize {
+  if (typeof limit === "number") return { width: limit, height: limit };
+  return {
+    width: limit?.width ?? fallback,
+    height: limit?.height ?? fallback,
+  };
+}
+
+// Joins the minimum sides of a low resolution warning, e.g. "1200px wide"
+function listMinimums(
+  { minWidth, minHeight }: CropLowResolutionDetails,
+  width: (value: number) => string,
+  height: (value: number) => string,
+  and: string,
+): string {
+  const needed = [];
+  if (minWidth > 0) needed.push(width(minWidth));
+  if (minHeight > 0) needed.push(height(minHeight));
+  return needed.join(and);
+}
+
+export const cropLocales: Record<CropLocale, CropLabels> = {
+  en: {
+    title: "Edit Photo",
+    close: "Close",
+    loading: "Loading image...",
+    cancel: "Cancel",
+    save: "Save Photo",
+    zoomIn: "Zoom In",
+    zoomOut: "Zoom Out",
+    rotate: "Rotate 90°",
+    straighten: "Straighten",
+    flipHorizontal: "Flip Horizontal",
+    flipVertical: "Flip Vertical",
+    aspectRatio: "Aspect Ratio",
+    aspectRatioPreset: (label) => `Aspect Ratio ${label}`,
+    free: "Free",
+    freeAspectRatio: "Free Aspect Ratio",
+    swapOrientation: "Swap Orientation",
+    image: "Image to crop",
+    cropArea: "Crop area. Arrow keys move, Shift + arrow keys resize",
+    lowResolution: (details) =>
+      `Low resolution: the selected area is ${details.width} × ` +
+      `${details.height}px but should be at least ` +
+      `${listMinimums(
+        details,
+        (w) => `${w}px wide`,
+        (h) => `${h}px tall`,
+        " and ",
+      )}. ` +
+      (details.blocked
+        ? "Select a larger area to save."
+        : "The photo may look blurry."),
+  },
+  de: {
+    title: "Foto bearbeiten",
+    close: "Schließen",
+    loading: "Bild wird geladen...",
+    cancel: "Abbrechen",
+    save: "Foto speichern",
+    zoomIn: "Vergrößern",
+    zoomOut: "Verkleinern",
+    rotate: "90° drehen",
+    straighten: "Begradigen",
+    flipHorizontal: "Horizontal spiegeln",
+    flipVertical: "Vertikal spiegeln",
+    aspectRatio: "Seitenverhältnis",
+    aspectRatioPreset: (label) => `Seitenverhältnis ${label}`,
+    free: "Frei",
+    freeAspectRatio: "Freies Seitenverhältnis",
+    swapOrientation: "Ausrichtung tauschen",
+    image: "Zuzuschneidendes Bild",
+    cropArea:
+      "Zuschnittbereich. Pfeiltasten verschieben, Umschalt + Pfeiltasten ändern die Größe",
+    lowResolution: (details) =>
+      `Niedrige Auflösung: Der ausgewählte Bereich ist ${details.width} × ` +
+      `${details.height} px groß, sollte aber mindestens ` +
+      `${listMinimums(
+        details,
+        (w) => `${w} px breit`,
+        (h) => `${h} px hoch`,
+        " und ",
+      )} sein. ` +
+      (details.blocked
+        ? "Wählen Sie zum Speichern einen größeren Bereich."
+        : "Das Foto könnte unscharf wirken."),
+  },
+  fr: {
+    title: "Modifier la photo",
+    close: "Fermer",
+    loading: "Chargement de l'image...",
+    cancel: "Annuler",
+    save: "Enregistrer la photo",
+    zoomIn: "Zoom avant",
+    zoomOut: "Zoom arrière",
+    rotate: "Pivoter de 90°",
+    straighten: "Redresser",
+    flipHorizontal: "Retourner horizontalement",
+    flipVertical: "Retourner verticalement",
+    aspectRatio: "Format",
+    aspectRatioPreset: (label) => `Format ${label}`,
+    free: "Libre",
+    freeAspectRatio: "Format libre",
+    swapOrientation: "Inverser l'orientation",
+    image: "Image à recadrer",
+    cropArea:
+      "Zone de recadrage. Les flèches la déplacent, Maj + flèches la redimensionnent",
+    lowResolution: (details) =>
+      `Basse résolution : la zone sélectionnée mesure ${details.width} × ` +
+      `${details.height} px mais devrait faire au moins ` +
+      `${listMinimums(
+        details,
+        (w) => `${w} px de large`,
+        (h) => `${h} px de haut`,
+        " et ",
+      )}. ` +
+      (details.blocked
+        ? "Sélectionnez une zone plus grande pour enregistrer."
+        : "La photo risque d'être floue."),
+  },
+  ar: {
+    title: "تعديل الصورة",
+    close: "إغلاق",
+    loading: "جارٍ تحميل الصورة...",
+    cancel: "إلغاء",
+    save: "حفظ الصورة",
+    zoomIn: "تكبير",
+    zoomOut: "تصغير",
+    rotate: "تدوير 90°",
+    straighten: "تقويم",
+    flipHorizontal: "قلب أفقي",
+    flipVertical: "قلب عمودي",
+    aspectRatio: "نسبة العرض إلى الارتفاع",
+    aspectRatioPreset: (label) => `نسبة العرض إلى الارتفاع ${label}`,
+    free: "حرة",
+    freeAspectRatio: "نسبة حرة",
+    swapOrientation: "تبديل الاتجاه",
+    image: "الصورة المراد قصها",
+    cropArea: "منطقة القص. مفاتيح الأسهم تحركها، و Shift مع الأسهم يغير حجمها",
+    lowResolution: (details) =>
+      `دقة منخفضة: المنطقة المحددة ${details.width} × ${details.height} ` +
+      `بكسل، والحد الأدنى المطلوب ${listMinimums(
+        details,
+        (w) => `عرض ${w} بكسل`,
+        (h) => `ارتفاع ${h} بكسل`,
+        " و",
+      )}. ` +
+      (details.blocked
+        ? "اختر منطقة أكبر للحفظ."
+        : "قد تبدو الصورة غير واضحة."),
+  },
 };
 
+// Locales laid out right to left unless the dir option says otherwise
+const RTL_LOCALES: CropLocale[] = ["ar"];
+
+function supportsAdoptedStyleSheets(): boolean {
+  return (
+    typeof ShadowRoot !== "undefined" &&
+    "adoptedStyleSheets" in ShadowRoot.prototype &&
+    "replaceSync" in CSSStyleSheet.prototype
+  );
+}
+
+/**
+ * Label for an aspect ratio, e.g. 16/9 → "16:9", falling back to two
+ * decimals for ratios without a small whole-number form
+ */
+function formatAspectRatio(ratio: number): string {
+  for (let height = 1; height <= 20; height++) {
+    const width = ratio * height;
+    if (Math.abs(width - Math.round(width)) < 0.01) {
+      return `${Math.round(width)}:${height}`;
+    }
+  }
+  return ratio.toFixed(2);
+}
+
+/**
+ * Reads a blob's bytes. Falls back to FileReader where Blob.arrayBuffer is
+ * missing (Safari before 14)
+ */
+function readBytes(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === "function") return blob.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener("load", () =>
+      resolve(reader.result as ArrayBuffer),
+    );
+    reader.addEventListener("error", () => reject(reader.error));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Reads the IFD0 fields of a JPEG's Exif data: SHORT fields as numbers,
+ * ASCII fields as strings. Anything that isn't a readable JPEG yields no
+ * fields, so metadata never stops an image from being edited.
+ */
+async function readExifTags(file: Blob): Promise<Map<number, number | string>> {
+  const tags = new Map<number, number | string>();
+  try {
+    const buffer = await readBytes(file.slice(0, EXIF_SCAN_BYTES));
+    const view = new DataView(buffer);
+    if (view.getUint16(0) !== 0xffd8) return tags;
+
+    // Walk the segments before the image data for the Exif APP1
+    let offset = 2;
+    let tiff = -1;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      if (
+        marker === 0xffe1 &&
+        view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+        view.getUint16(offset + 8) === 0
+      ) {
+        tiff = offset + 10;
+        break;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    if (tiff < 0) return tags;
+
+    const little = view.getUint16(tiff) === 0x4949; // "II"
+    const ifd = tiff + view.getUint32(tiff + 4, little);
+    const count = view.getUint16(ifd, little);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const length = view.getUint32(entry + 4, little);
+      if (type === 3) {
+        tags.set(tag, view.getUint16(entry + 8, little));
+      } else if (type === 2) {
+        // Values over 4 bytes are stored at an offset from the TIFF header
+        const start =
+          length <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+        const text = new TextDecoder().decode(
+          new Uint8Array(buffer, start, length),
+        );
+        tags.set(tag, text.replace(/\0+$/, ""));
+      }
+    }
+  } catch {
+    // Truncated or malformed Exif: use what was read so far
+  }
+  return tags;
+}
+
+/**
+ * Builds a big-endian Exif APP1 segment holding only the given ASCII
+ * fields of IFD0. Returns null if they don't fit in one segment.
+ */
+function buildExifSegment(
+  fields: [number, string][],
+): Uint8Array<ArrayBuffer> | null {
+  const values = fields.map(
+    ([tag, text]) => [tag, new TextEncoder().encode(`${text}\0`)] as const,
+  );
+  const ifdSize = 2 + values.length * 12 + 4;
+  const dataSize = values.reduce(
+    (sum, [, bytes]) => sum + (bytes.length > 4 ? bytes.length : 0),
+    0,
+  );
+  const segment = new Uint8Array(4 + 6 + 8 + ifdSize + dataSize);
+  if (segment.length - 2 > 0xffff) return null;
+
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+
+  const tiff = 10;
+  view.setUint16(tiff, 0x4d4d); // "MM"
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8);
+  view.setUint16(tiff + 8, values.length);
+
+  let data = 8 + ifdSize;
+  values.forEach(([tag, bytes], i) => {
+    const entry = tiff + 10 + i * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, 2); // ASCII
+    view.setUint32(entry + 4, bytes.length);
+    if (bytes.length <= 4) {
+      segment.set(bytes, entry + 8);
+    } else {
+      view.setUint32(entry + 8, data);
+      segment.set(bytes, tiff + data);
+      data += bytes.length;
+    }
+  });
+  // The next-IFD offset stays 0: no thumbnail, GPS or camera IFDs
+  return segment;
+}
+
+/**
+ * The Exif segment for metadata: "preserve-safe", or null if the source
+ * has none of the safe fields
+ */
+async function readSafeExif(
+  source: Blob,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const tags = await readExifTags(source);
+  const fields = SAFE_EXIF_TAGS.flatMap((tag): [number, string][] => {
+    const value = tags.get(tag);
+    return typeof value === "string" && value !== "" ? [[tag, value]] : [];
+  });
+  return fields.length > 0 ? buildExifSegment(fields) : null;
+}
+
+/**
+ * Whether the browser already draws images upright per their Exif
+ * orientation, in <img> as well as on canvas
+ */
+function appliesExifOrientation(): boolean {
+  return (
+    typeof CSS !== "undefined" &&
+    typeof CSS.supports === "function" &&
+    CSS.supports("image-orientation", "from-image")
+  );
+}
+
+/**
+ * Redraws an image upright for browsers that ignore its Exif orientation,
+ * so the editor preview, natural size and saved output all agree
+ */
+async function orientImage(src: string, orientation: number): Promise<string> {
+  const image = document.createElement("img");
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = () => reject(new ImageDecodeError());
+    image.src = src;
+  });
+
+  const w = image.naturalWidth;
+  const h = image.naturalHeight;
+  // Maps stored pixels to displayed pixels for orientations 2-8
+  const transforms: Record<number, [number, number, number, number]> = {
+    2: [-1, 0, 0, 1],
+    3: [-1, 0, 0, -1],
+    4: [1, 0, 0, -1],
+    5: [0, 1, 1, 0],
+    6: [0, 1, -1, 0],
+    7: [0, -1, -1, 0],
+    8: [0, -1, 1, 0],
+  };
+  const [a, b, c, d] = transforms[orientation];
+  const swap = orientation >= 5;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = swap ? h : w;
+  canvas.height = swap ? w : h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new CanvasUnavailableError();
+  }
+  // Translate so the transformed image lands back on the canvas
+  ctx.setTransform(
+    a,
+    b,
+    c,
+    d,
+    Math.max(0, -a * w) + Math.max(0, -c * h),
+    Math.max(0, -b * w) + Math.max(0, -d * h),
+  );
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL("image/jpeg", 0.95);
+}
+
+/**
+ * Converts an image the browser can't decode into one it can, e.g. JPEG
+ * or PNG
+ */
+export type CropDecoder = (file: Blob) => Promise<Blob>;
+
+/**
+ * Converts HEIC/HEIF to JPEG. heic2any is large, so it is only loaded
+ * once a HEIC file shows up.
+ */
+async function decodeHeic(file: Blob): Promise<Blob> {
+  try {
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({
+      blob: file,
+      toType: "image/jpeg",
+      quality: 0.8,
+    });
+    return Array.isArray(converted) ? converted[0] : converted;
+  } catch (error) {
+    throw new HeicConversionError(error);
+  }
+}
+
+// Decoders by format name, see detectImageFormat
+const decoders = new Map<string, CropDecoder>([["heic", decodeHeic]]);
+
+function normalizeFormat(format: string): string {
+  const name = format.toLowerCase();
+  return FORMAT_ALIASES[name] ?? name;
+}
+
+/**
+ * Use `decoder` for images of `format` before they are shown in the editor
+ * or cropped with cropImage(). Sniffed formats are "jpeg", "png", "gif",
+ * "webp", "avif", "heic" (any HEIF), "jxl", "tiff" and "bmp"; others are
+ * matched by MIME subtype or file extension. Replaces the current decoder
+ * for the format, including the built-in HEIC one, and returns a function
+ * that restores it.
+ */
+export function registerDecoder(
+  format: string,
+  decoder: CropDecoder,
+): () => void {
+  const name = normalizeFormat(format);
+  const previous = decoders.get(name);
+  decoders.set(name, decoder);
+  return () => {
+    if (decoders.get(name) !== decoder) return;
+    if (previous) {
+      decoders.set(name, previous);
+    } else {
+      decoders.delete(name);
+    }
+  };
+}
+
+/**
+ * Identifies an image format from its first bytes
+ */
+function sniffImageFormat(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  const startsWith = (...values: number[]) =>
+    values.every((value, i) => bytes[i] === value);
+
+  if (startsWith(0xff, 0xd8, 0xff)) return "jpeg";
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return "png";
+  if (ascii(0, 4) === "GIF8") return "gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (startsWith(0x49, 0x49, 0x2a, 0) || startsWith(0x4d, 0x4d, 0, 0x2a)) {
+    return "tiff";
+  }
+  // Bare codestream or ISO container
+  if (startsWith(0xff, 0x0a) || ascii(4, 8) === "JXL ") return "jxl";
+  if (ascii(0, 2) === "BM") return "bmp";
+
+  if (ascii(4, 8) === "ftyp") {
+    // Major brand at 8, then compatible brands from 16 to the box end
+    const boxSize = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+    const end = Math.min(bytes.length, boxSize);
+    const brands = [ascii(8, 12)];
+    for (let offset = 16; offset + 4 <= end; offset += 4) {
+      brands.push(ascii(offset, offset + 4));
+    }
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif";
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return "heic";
+  }
+  return null;
+}
+
+/**
+ * The format of an image file, sniffed from its bytes. MIME types and
+ * extensions are often missing or wrong for HEIC, so they are only the
+ * fallback.
+ */
+async function detectImageFormat(file: File): Promise<string> {
+  try {
+    const bytes = await readBytes(file.slice(0, FORMAT_SNIFF_BYTES));
+    const sniffed = sniffImageFormat(new Uint8Array(bytes));
+    if (sniffed) return sniffed;
+  } catch {
+    // Unreadable here; decoding reports it
+  }
+  return normalizeFormat(
+    file.type.startsWith("image/")
+      ? file.type.slice("image/".length)
+      : (file.name.split(".").pop() ?? ""),
+  );
+}
+
+/**
+ * Reads an image file as a data URL, first converting formats with a
+ * registered decoder (HEIC by default)
+ */
+async function readImageFile(file: File): Promise<string> {
+  let imageFile: Blob = file;
+
+  // Convert formats the browser can't show, e.g. HEIC
+  const decoder = decoders.get(await detectImageFormat(file));
+  if (decoder) {
+    try {
+      imageFile = await decoder(file);
+    } catch (error) {
+      throw error instanceof CropError ? error : new ImageDecodeError(error);
+    }
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener("load", () => {
+      resolve(reader.result?.toString() || "");
+    });
+    reader.addEventListener("error", () =>
+      reject(new ImageDecodeError(reader.error)),
+    );
+    reader.readAsDataURL(imageFile);
+  });
+
+  // Older browsers show rotated phone photos sideways
+  if (appliesExifOrientation()) return dataUrl;
+  const orientation = (await readExifTags(imageFile)).get(EXIF_ORIENTATION);
+  return typeof orientation === "number" && orientation >= 2 && orientation <= 8
+    ? orientImage(dataUrl, orientation)
+    : dataUrl;
+}
+
+/**
+ * Resolves a crop source to a fully decoded image element
+ */
+async function decodeImageSource(
+  source: CropImageSource,
+): Promise<HTMLImageElement> {
+  const image =
+    source instanceof HTMLImageElement ? source : document.createElement("img");
+
+  if (!(source instanceof HTMLImageElement)) {
+    const file =
+      source instanceof File
+        ? source
+        : new File([source], "image", { type: source.type });
+    image.src = await readImageFile(file);
+  }
+
+  // A complete image without dimensions has failed or has no src, and
+  // won't fire load or error again
+  if (image.complete) {
+    if (image.naturalWidth > 0) return image;
+    throw new ImageDecodeError();
+  }
+
+  return new Promise((resolve, reject) => {
+    image.addEventListener("load", () => resolve(image), { once: true });
+    image.addEventListener("error", () => reject(new ImageDecodeError()), {
+      once: true,
+    });
+  });
+}
+
+/**
+ * Output dimensions for a crop, scaled down to fit within maxOutputSize
+ */
+function getOutputSize(
+  rect: CropRect,
+  maxOutputSize: number,
+): { width: number; height: number } {
+  let width = rect.width;
+  let height = rect.height;
+
+  if (width > maxOutputSize || height > maxOutputSize) {
+    const scaleFactor = Math.min(maxOutputSize / width, maxOutputSize / height);
+    width = width * scaleFactor;
+    height = height * scaleFactor;
+  }
+
+  return { width: Math.round(width), height: Math.round(height) };
+}
+
+/**
+ * Size of the axis-aligned bounding box of a w × h rectangle rotated by
+ * the given angle in degrees
+ */
+function getRotatedSize(
+  w: number,
+  h: number,
+  rotate: number,
+): { w: number; h: number } {
+  const rad = (rotate * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return { w: w * cos + h * sin, h: w * sin + h * cos };
+}
+
+/**
+ * Draws the cropped region of an image onto a canvas context.
+ *
+ * The crop rect is expressed in natural pixels relative to the bounding
+ * box of the rotated image, so it maps 1:1 to what is shown on screen.
+ * Flip is applied to the source before rotation, matching the CSS order,
+ * so the rotation always reads clockwise on screen.
+ */
+function drawCrop(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  transform: RenderTransform,
+  width: number,
+  height: number,
+): void {
+  const { rect, rotate, flipX, flipY } = transform;
+  const naturalW = image.naturalWidth;
+  const naturalH = image.naturalHeight;
+  const box = getRotatedSize(naturalW, naturalH, rotate);
+
+  ctx.save();
+  ctx.scale(width / rect.width, height / rect.height);
+  ctx.translate(box.w / 2 - rect.x, box.h / 2 - rect.y);
+  ctx.rotate((rotate * Math.PI) / 180);
+  ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+  ctx.drawImage(image, -naturalW / 2, -naturalH / 2);
+  ctx.restore();
+}
+
+/**
+ * Promise wrapper around canvas.toBlob
+ */
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number,
+): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Encodes the canvas as the requested type. Browsers silently return PNG
+ * for types they can't encode, so the blob type is checked and the next
+ * fallback tried until one matches.
+ */
+async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  outputType: CropOutputType,
+  quality: number,
+): Promise<Blob> {
+  let blob: Blob | null = null;
+  for (const type of OUTPUT_FALLBACKS[outputType]) {
+    blob = await canvasToBlob(canvas, type, quality);
+    if (blob && blob.type === type) return blob;
+  }
+  if (!blob) {
+    throw new EncodeError();
+  }
+  return blob;
+}
+
+/**
+ * Encodes the canvas at the highest quality (up to maxQuality) whose blob
+ * fits within maxBytes, bisecting quality a bounded number of times.
+ * Lossless output can't be tuned this way and is returned as-is; if no
+ * quality fits, the smallest blob found is returned.
+ */
+async function encodeWithinSize(
+  canvas: HTMLCanvasElement,
+  outputType: CropOutputType,
+  maxQuality: number,
+  maxBytes: number,
+): Promise<Blob> {
+  const first = await encodeCanvas(canvas, outputType, maxQuality);
+  if (first.size <= maxBytes || !LOSSY_TYPES.includes(first.type)) {
+    return first;
+  }
+
+  let low = Math.min(MIN_QUALITY, maxQuality);
+  let high = maxQuality;
+  let fitting: Blob | null = null;
+  let smallest = first;
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encodeCanvas(canvas, outputType, quality);
+    if (blob.size <= maxBytes) {
+      fitting = blob;
+      low = quality;
+    } else {
+      high = quality;
+      if (blob.size < smallest.size) smallest = blob;
+    }
+  }
+
+  return fitting ?? smallest;
+}
+
+/**
+ * Draws the crop onto the canvas at the given output size, applying the
+ * background fill and circular mask
+ */
+function drawOutput(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  transform: RenderTransform,
+  output: ResolvedOutput,
+  width: number,
+  height: number,
+): void {
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new CanvasUnavailableError();
+  }
+
+  ctx.imageSmoothingQuality = "high";
+
+  const background =
+    output.outputBackground ??
+    (output.outputType === "image/jpeg" ? JPEG_BACKGROUND : null);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  ctx.save();
+  if (output.circularCrop) {
+    // Ellipse inscribed in the output — a circle for square crops
+    ctx.beginPath();
+    ctx.ellipse(
+      width / 2,
+      height / 2,
+      width / 2,
+      height / 2,
+      0,
+      0,
+      Math.PI * 2,
+    );
+    ctx.clip();
+  }
+  drawCrop(ctx, image, transform, width, height);
+  ctx.restore();
+}
+
+/**
+ * Render and encode the crop at one output size.
+ *
+ * With maxFileSizeBytes set, quality is searched first; if even the lowest
+ * quality is too large, the output is scaled down and searched again.
+ */
+async function renderFile(
+  image: HTMLImageElement,
+  canvas: HTMLCanvasElement,
+  transform: RenderTransform,
+  output: ResolvedOutput,
+  maxOutputSize: number,
+  fileName: string,
+): Promise<CropVariant> {
+  let { width, height } = getOutputSize(transform.rect, maxOutputSize);
+  // Leave room for the metadata added after encoding
+  const maxBytes =
+    output.maxFileSizeBytes &&
+    Math.max(1, output.maxFileSizeBytes - (output.exif?.length ?? 0));
+
+  drawOutput(canvas, image, transform, output, width, height);
+  let blob = maxBytes
+    ? await encodeWithinSize(
+        canvas,
+        output.outputType,
+        output.compressionQuality,
+        maxBytes,
+      )
+    : await encodeCanvas(canvas, output.outputType, output.compressionQuality);
+
+  for (
+    let step = 0;
+    maxBytes && blob.size > maxBytes && step < MAX_RESIZE_STEPS;
+    step++
+  ) {
+    // File size scales roughly with pixel count
+    const shrink = Math.max(0.5, Math.sqrt(maxBytes / blob.size) * 0.9);
+    width = Math.max(1, Math.round(width * shrink));
+    height = Math.max(1, Math.round(height * shrink));
+
+    drawOutput(canvas, image, transform, output, width, height);
+    blob = await encodeWithinSize(
+      canvas,
+      output.outputType,
+      output.compressionQuality,
+      maxBytes,
+    );
+  }
+
+  // Canvas encoders write no metadata at all; add back the safe fields
+  if (output.exif && blob.type === "image/jpeg") {
+    blob = new Blob([blob.slice(0, 2), output.exif, blob.slice(2)], {
+      type: blob.type,
+    });
+  }
+
+  const type = (blob.type || output.outputType) as CropOutputType;
+  const extension = OUTPUT_EXTENSIONS[type] ?? "png";
+
+  const previewUrl = URL.createObjectURL(blob);
+  const croppedFile = new File([blob], `${fileName}.${extension}`, {
+    type,
+  });
+
+  return {
+    name: fileName,
+    width,
+    height,
+    previewUrl,
+    file: croppedFile,
+    blob,
+  };
+}
+
+/**
+ * Crop, compress and encode an image. Shared by the editor and cropImage().
+ *
+ * Every variant in outputSizes is drawn straight from the full-resolution
+ * source, so smaller sizes don't pick up artifacts from the larger ones.
+ */
+async function renderCrop(
+  image: HTMLImageElement,
+  canvas: HTMLCanvasElement,
+  transform: RenderTransform,
+  output: ResolvedOutput,
+): Promise<CropResult> {
+  const { previewUrl, file, blob } = await renderFile(
+    image,
+    canvas,
+    transform,
+    output,
+    output.maxOutputSize,
+    output.fileName,
+  );
+  const result: CropResult = { previewUrl, file, blob };
+
+  if (output.outputSizes.length > 0) {
+    result.variants = [];
+    for (const entry of output.outputSizes) {
+      const { name, size } =
+        typeof entry === "number"
+          ? { name: String(entry), size: entry }
+          : entry;
+      const variant = await renderFile(
+        image,
+        canvas,
+        transform,
+        output,
+        size,
+        `${output.fileName}-${name}`,
+      );
+      result.variants.push({ ...variant, name });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Crops an image without opening the editor. The rect is given in
+ * natural image pixels, e.g. from a stored crop or a detected face box.
+ */
+export async function cropImage(
+  source: CropImageSource,
+  options: CropImageOptions,
+): Promise<CropResult> {
+  const image = await decodeImageSource(source);
+  const canvas = document.createElement("canvas");
+  const sourceType = source instanceof Blob ? source.type : "";
+
+  return renderCrop(
+    image,
+    canvas,
+    {
+      rect: options.rect,
+      rotate: options.rotate ?? 0,
+      flipX: options.flip?.horizontal ?? false,
+      flipY: options.flip?.vertical ?? false,
+    },
+    {
+      maxOutputSize: options.output?.maxOutputSize ?? 1200,
+      compressionQuality: options.output?.compressionQuality ?? 0.7,
+      outputType: resolveOutputType(
+        options.output?.outputType ?? "image/jpeg",
+        sourceType,
+        !!options.output?.circularCrop && !options.output?.outputBackground,
+      ),
+      circularCrop: options.output?.circularCrop ?? false,
+      outputBackground: options.output?.outputBackground ?? null,
+      maxFileSizeBytes: options.output?.maxFileSizeBytes ?? null,
+      outputSizes: options.output?.outputSizes ?? [],
+      fileName: options.output?.fileName ?? "cropped",
+      exif:
+        options.output?.metadata === "preserve-safe" && source instanceof Blob
+          ? await readSafeExif(source)
+          : null,
+    },
+  );
+}
+
+/**
+ * Release the object URLs of a result nobody will receive
+ */
+function revokeResult(result: CropResult): void {
+  URL.revokeObjectURL(result.previewUrl);
+  result.variants?.forEach((variant) =>
+    URL.revokeObjectURL(variant.previewUrl),
+  );
+}
+
 export class CropImagePro {
   private container: HTMLElement | null = null;
   private imgElement: HTMLImageElement | null = null;
@@ -37,6 +1319,27 @@ export class CropImagePro {
   private fileName: string;
   private isLoading = false;
   private contentElement: HTMLElement | null = null;
+  // Light DOM element holding the shadow root, with the shadowDom option
+  private shadowHost: HTMLElement | null = null;
+  // The image area and the crop frame inside it, once the image has loaded
+  private wrapperElement: HTMLElement | null = null;
+  private overlayElement: HTMLElement | null = null;
+  private returnFocusTo: HTMLElement | null = null;
+  // Aborted on close to remove every listener added while the editor is open
+  private listeners: AbortController | null = null;
+  // Settles the promise returned by open(); null when mounted inline
+  private pendingOpen: {
+    resolve: (result: CropResult) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  // Rendered into a host element by mount() rather than as a modal
+  private inline = false;
+  private handlers = new Map<
+    keyof CropEventMap,
+    Set<CropEventHandler<keyof CropEventMap>>
+  >();
+  // Last crop reported through cropchange, to skip no-op updates
+  private lastCrop: CropRect | null = null;
 
   // Crop state
   private crop = {
@@ -44,10 +1347,12 @@ export class CropImagePro {
     y: 0,
     width: 0,
     height: 0,
-    unit: "%" as const,
   };
   private scale = 1;
   private rotate = 0;
+  private straighten = 0;
+  private flipX = false;
+  private flipY = false;
   private isFixedAspect = true;
   private imgSrc = "";
   private isDragging = false;
@@ -56,126 +1361,467 @@ export class CropImagePro {
   private resizeHandle = "";
   private panX = 0;
   private panY = 0;
+  private activePointers = new Map<number, { x: number; y: number }>();
+  private pinchStart: {
+    distance: number;
+    midX: number;
+    midY: number;
+    scale: number;
+    panX: number;
+    panY: number;
+  } | null = null;
 
   constructor(file: File, fileName: string, options: CropImageProOptions = {}) {
     this.file = file;
     this.fileName = fileName;
+    // Start within the allowed range so the default lock can't break it
+    const aspectRatio = Math.min(
+      options.maxAspectRatio ?? Infinity,
+      Math.max(options.minAspectRatio ?? 0, options.aspectRatio ?? 1),
+    );
     this.options = {
-      aspectRatio: options.aspectRatio ?? 1,
+      aspectRatio,
       maxOutputSize: options.maxOutputSize ?? 1200,
       compressionQuality: options.compressionQuality ?? 0.7,
+      outputType: options.outputType ?? "image/jpeg",
       circularCrop: options.circularCrop ?? false,
+      outputBackground: options.outputBackground ?? null,
+      maxFileSizeBytes: options.maxFileSizeBytes ?? null,
+      outputSizes: options.outputSizes ?? [],
+      metadata: options.metadata ?? "strip",
+      initialCrop: options.initialCrop ?? null,
+      aspectRatioPresets: options.aspectRatioPresets ?? [
+        { label: formatAspectRatio(aspectRatio), value: aspectRatio },
+        "free",
+      ],
+      minAspectRatio: options.minAspectRatio ?? null,
+      maxAspectRatio: options.maxAspectRatio ?? null,
+      minCropSize: resolveSizeLimit(options.minCropSize, 0),
+      maxCropSize: resolveSizeLimit(options.maxCropSize, Infinity),
+      minOutputSize: resolveSizeLimit(options.minOutputSize, 0),
+      lowResolution: options.lowResolution ?? "warn",
+      locale: options.locale ?? "en",
+      labels: { ...cropLocales[options.locale ?? "en"], ...options.labels },
+      dir:
+        options.dir ??
+        (RTL_LOCALES.includes(options.locale ?? "en") ? "rtl" : "ltr"),
+      shadowDom: options.shadowDom ?? false,
+      nonce: options.nonce ?? null,
+      flip: {
+        horizontal: options.flip?.horizontal ?? false,
+        vertical: options.flip?.vertical ?? false,
+      },
       theme: {
         primaryColor: options.theme?.primaryColor ?? "#073d44",
         backgroundColor: options.theme?.backgroundColor ?? "#ffffff",
         overlayColor: options.theme?.overlayColor ?? "rgba(0, 0, 0, 0.6)",
       },
     };
+    this.flipX = this.options.flip.horizontal;
+    this.flipY = this.options.flip.vertical;
+    // A ratio range without an explicit aspectRatio means free cropping
+    // within that range
+    this.isFixedAspect =
+      options.aspectRatio !== undefined ||
+      (options.minAspectRatio === undefined &&
+        options.maxAspectRatio === undefined);
+  }
+
+  /**
+   * Apply theme CSS variables to the current overlay container
+   */
+  private applyThemeVariables(target: HTMLElement): void {
+    const { primaryColor, backgroundColor, overlayColor } = this.options.theme;
+    target.style.setProperty("--crop-image-pro-primary", primaryColor);
+    target.style.setProperty("--crop-image-pro-background", backgroundColor);
+    target.style.setProperty("--crop-image-pro-overlay", overlayColor);
+  }
+
+  /**
+   * Opens the crop editor modal. Pass an AbortSignal to close it from
+   * outside, e.g. on route changes.
+   */
+  public async open(options: CropOpenOptions = {}): Promise<CropResult> {
+    const { signal } = options;
+    return new Promise((resolvePromise, rejectPromise) => {
+      // Settle first, so a throwing event handler can't leave open() pending
+      const resolve = (result: CropResult) => {
+        resolvePromise(result);
+        this.emit("save", result);
+      };
+      const reject = (error: Error) => {
+        rejectPromise(error);
+        this.emitFailure(error);
+      };
+
+      if (signal?.aborted) {
+        reject(new CropCancelledError("aborted"));
+        return;
+      }
+
+      // Only one editor per instance
+      this.closeWith(new CropCancelledError());
+
+      this.returnFocusTo =
+        document.activeElement instanceof HTMLElement
+          ? document.activeElement
+          : null;
+      this.pendingOpen = { resolve, reject };
+      this.render(document.body, false, signal);
+      this.container?.focus();
+    });
+  }
+
+  /**
+   * Renders the editor inside `host` instead of as a modal, e.g. in a
+   * profile form. There is no promise to wait for: call save() or listen
+   * for the save and error events. The editor stays mounted until
+   * destroy(), another mount() or open(), or the signal aborts.
+   */
+  public mount(host: HTMLElement, options: CropOpenOptions = {}): void {
+    const { signal } = options;
+    if (signal?.aborted) return;
+
+    this.closeWith(new CropCancelledError());
+    this.render(host, true, signal);
+  }
+
+  /**
+   * Builds the editor into `host` and loads the image. Failures close the
+   * editor and reject open(), or are emitted when mounted inline.
+   */
+  private async render(
+    host: HTMLElement,
+    inline: boolean,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const session = new AbortController();
+    try {
+      // Add styles first; a shadow root brings its own
+      if (!this.options.shadowDom) this.injectStyles();
+
+      this.inline = inline;
+      this.listeners = session;
+      signal?.addEventListener(
+        "abort",
+        () => this.closeWith(new CropCancelledError("aborted")),
+        { signal: session.signal },
+      );
+
+      // Always show loading state initially
+      this.isLoading = true;
+      this.createModal();
+      if (this.options.shadowDom) {
+        this.shadowHost = this.createShadowHost(this.container!);
+        host.appendChild(this.shadowHost);
+      } else {
+        host.appendChild(this.container!);
+      }
+
+      // Load and convert image (this may take time for HEIC)
+      const imgSrc = await this.loadImage();
+      // Closed (cancelled, aborted, destroyed or reopened) while loading
+      if (session.signal.aborted) return;
+      this.imgSrc = imgSrc;
+
+      // Update content with actual image
+      this.showImageContent();
+    } catch (error) {
+      // A newer editor may be open by now; leave it alone
+      if (session.signal.aborted) return;
+      this.closeWith(error as Error);
+    }
+  }
+
+  /**
+   * Crops and encodes the current selection, like the Save button. The
+   * modal closes and open() resolves; an inline editor stays mounted and
+   * emits save. Rejects if the editor is closed before encoding finishes,
+   * or with a LowResolutionError while lowResolution: "block" applies.
+   */
+  public async save(): Promise<CropResult> {
+    if (!this.isReady()) {
+      throw new CanvasUnavailableError("No image is loaded");
+    }
+    if (this.isSaveBlocked()) {
+      throw new LowResolutionError();
+    }
+    const session = this.listeners;
+    let result: CropResult;
+    try {
+      result = await this.handleSave();
+    } catch (error) {
+      if (this.pendingOpen) {
+        this.closeWith(error as Error);
+      } else {
+        this.emitFailure(error as Error);
+      }
+      throw error;
+    }
+
+    // Closed while encoding: nobody else receives the result
+    if (!session || session.signal.aborted) {
+      revokeResult(result);
+      throw new CropCancelledError();
+    }
+    const pending = this.pendingOpen;
+    if (pending) {
+      this.close();
+      pending.resolve(result);
+    } else {
+      this.emit("save", result);
+    }
+    return result;
+  }
+
+  /**
+   * Closes the editor, if one is open, and reports why: open() rejects
+   * with the error, an inline editor emits it as cancel or error
+   */
+  private closeWith(error: Error): void {
+    if (!this.container) return;
+    const pending = this.pendingOpen;
+    this.close();
+    if (pending) {
+      pending.reject(error);
+    } else {
+      this.emitFailure(error);
+    }
+  }
+
+  private emitFailure(error: Error): void {
+    if (error instanceof CropCancelledError) {
+      this.emit("cancel", { reason: error.reason });
+    } else {
+      this.emit("error", error);
+    }
+  }
+
+  /**
+   * Subscribe to editor state changes. Handlers are kept across open()
+   * calls until removed with off() or destroy().
+   */
+  public on<K extends keyof CropEventMap>(
+    event: K,
+    handler: CropEventHandler<K>,
+  ): this {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers
+      .get(event)!
+      .add(handler as CropEventHandler<keyof CropEventMap>);
+    return this;
+  }
+
+  /**
+   * Remove a handler, every handler for an event, or (without arguments)
+   * every handler
+   */
+  public off<K extends keyof CropEventMap>(
+    event?: K,
+    handler?: CropEventHandler<K>,
+  ): this {
+    if (!event) {
+      this.handlers.clear();
+    } else if (!handler) {
+      this.handlers.delete(event);
+    } else {
+      this.handlers
+        .get(event)
+        ?.delete(handler as CropEventHandler<keyof CropEventMap>);
+    }
+    return this;
+  }
+
+  private emit<K extends keyof CropEventMap>(
+    event: K,
+    payload: CropEventMap[K],
+  ): void {
+    this.handlers.get(event)?.forEach((handler) => handler(payload));
+  }
+
+  /**
+   * Close the editor if it is open, rejecting the pending open() promise,
+   * and remove every listener and element it added. Safe to call repeatedly.
+   */
+  public destroy(): void {
+    this.closeWith(new CropCancelledError("destroyed"));
+    this.close();
+    this.handlers.clear();
+  }
+
+  /**
+   * Current crop of the open editor, in natural pixels by default.
+   * Returns null until the image is ready.
+   */
+  public getCrop(options: { unit?: CropUnit } = {}): CropRect | null {
+    if (!this.isReady()) return null;
+    return this.convertRect(this.getNaturalCropRect(), "natural", options.unit);
+  }
+
+  /**
+   * Move the crop of the open editor. The view zooms out and pans as
+   * needed so the whole rect is visible; with the aspect lock on, the rect
+   * is shrunk around its centre to the locked ratio.
+   */
+  public setCrop(rect: CropRect, options: { unit?: CropUnit } = {}): void {
+    if (!this.isReady()) return;
+    this.applyCrop(this.convertRect(rect, options.unit ?? "natural"));
+  }
+
+  /**
+   * Show a natural-pixel rect as the crop (see setCrop)
+   */
+  private applyCrop(natural: CropRect): void {
+    const wrapper = this.wrapperElement;
+    if (!wrapper || !this.imgElement) return;
+
+    const aspect = this.isFixedAspect
+      ? this.options.aspectRatio
+      : this.clampAspectRatio(natural.width / natural.height);
+    const width = Math.min(natural.width, natural.height * aspect);
+    const height = width / aspect;
+    natural.x += (natural.width - width) / 2;
+    natural.y += (natural.height - height) / 2;
+    natural.width = width;
+    natural.height = height;
+
+    // Zoom out until the rect fits the editor
+    const { w: baseW } = this.getBaseImageSize();
+    const { naturalWidth } = this.imgElement;
+    const fitScale = Math.min(
+      (wrapper.clientWidth * naturalWidth) / (natural.width * baseW),
+      (wrapper.clientHeight * naturalWidth) / (natural.height * baseW),
+    );
+    if (this.scale > fitScale) {
+      this.setScale(fitScale);
+    }
+
+    // Centre the rect if any of it is out of view
+    let screen = this.convertRect(natural, "natural", "px");
+    const bounds = this.getImageBoundsInWrapper();
+    if (
+      screen.x < bounds.left ||
+      screen.y < bounds.top ||
+      screen.x + screen.width > bounds.right ||
+      screen.y + screen.height > bounds.bottom
+    ) {
+      this.panX += wrapper.clientWidth / 2 - (screen.x + screen.width / 2);
+      this.panY += wrapper.clientHeight / 2 - (screen.y + screen.height / 2);
+      this.updateImageTransform();
+      screen = this.convertRect(natural, "natural", "px");
+    }
+
+    this.crop = screen;
+    this.constrainCropToBounds();
   }
 
   /**
-   * Apply theme CSS variables to the current overlay container
+   * Set the zoom of the open editor (1 = the whole image fits), clamped to
+   * the allowed range
    */
-  private applyThemeVariables(target: HTMLElement): void {
-    const { primaryColor, backgroundColor, overlayColor } = this.options.theme;
-    target.style.setProperty("--crop-image-pro-primary", primaryColor);
-    target.style.setProperty("--crop-image-pro-background", backgroundColor);
-    target.style.setProperty("--crop-image-pro-overlay", overlayColor);
+  public setZoom(scale: number): void {
+    if (!this.isReady()) return;
+    this.setScale(scale);
   }
 
   /**
-   * Opens the crop editor modal
+   * Set the total clockwise rotation of the open editor. It is split into
+   * 90° steps plus a straighten angle within ±45°.
    */
-  public async open(): Promise<CropResult> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        // Add styles first
-        this.injectStyles();
-
-        // Always show loading state initially
-        this.isLoading = true;
-        this.createModal(resolve, reject);
+  public setRotation(degrees: number): void {
+    if (!this.isReady()) return;
+    const quarterTurns = Math.round(degrees / 90);
+    this.rotate = (((quarterTurns * 90) % 360) + 360) % 360;
+    this.straighten = 0;
+    this.setStraighten(degrees - quarterTurns * 90);
+  }
 
-        // Add to DOM
-        document.body.appendChild(this.container!);
+  /**
+   * Lock the crop of the open editor to an aspect ratio, or pass null to
+   * unlock it
+   */
+  public setAspectRatio(ratio: number | null): void {
+    if (!this.isReady()) return;
+    this.setAspect(ratio);
+  }
 
-        // Load and convert image (this may take time for HEIC)
-        const imgSrc = await this.loadImage();
-        this.imgSrc = imgSrc;
+  /**
+   * Snapshot of the open editor's crop and transform, or null until the
+   * image is ready
+   */
+  public getState(): Readonly<CropEditorState> | null {
+    if (!this.isReady()) return null;
+    return {
+      crop: this.getNaturalCropRect(),
+      scale: this.scale,
+      rotate: this.rotate,
+      straighten: this.straighten,
+      flip: { horizontal: this.flipX, vertical: this.flipY },
+      aspectRatio: this.isFixedAspect ? this.options.aspectRatio : null,
+    };
+  }
 
-        // Update content with actual image
-        this.showImageContent();
-      } catch (error) {
-        reject(error);
-      }
-    });
+  /**
+   * Whether the editor is open with its image loaded (set by the ready event)
+   */
+  private isReady(): boolean {
+    return this.lastCrop !== null;
   }
 
   /**
    * Loads and converts image (handles HEIC)
    */
   private async loadImage(): Promise<string> {
-    let imageFile = this.file;
-
-    // Handle HEIC conversion
-    if (
-      this.file.type === "image/heic" ||
-      this.file.name.toLowerCase().endsWith(".heic")
-    ) {
-      const convertedBlob = await heic2any({
-        blob: this.file,
-        toType: "image/jpeg",
-        quality: 0.8,
-      });
-
-      const blob = Array.isArray(convertedBlob)
-        ? convertedBlob[0]
-        : convertedBlob;
-
-      imageFile = new File([blob], this.file.name.replace(/\.heic$/i, ".jpg"), {
-        type: "image/jpeg",
-      });
-    }
-
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.addEventListener("load", () => {
-        resolve(reader.result?.toString() || "");
-      });
-      reader.addEventListener("error", reject);
-      reader.readAsDataURL(imageFile);
-    });
+    return readImageFile(this.file);
   }
 
   /**
    * Creates the modal UI structure
    */
-  private createModal(
-    resolve: (result: CropResult) => void,
-    reject: (error: Error) => void,
-  ): void {
+  private createModal(): void {
     // Create container
     this.container = document.createElement("div");
-    this.container.className = "crop-image-pro-overlay";
-    this.container.setAttribute("role", "dialog");
-    this.container.setAttribute("aria-modal", "true");
+    if (this.inline) {
+      this.container.className = "crop-image-pro-inline";
+    } else {
+      this.container.className = "crop-image-pro-overlay";
+      this.container.setAttribute("part", "overlay");
+      this.container.setAttribute("role", "dialog");
+      this.container.setAttribute("aria-modal", "true");
+      this.container.tabIndex = -1;
+    }
+    this.container.dir = this.options.dir;
     this.applyThemeVariables(this.container);
 
+    const { signal } = this.listeners!;
+    const cancel = () => this.closeWith(new CropCancelledError());
+    const save = async () => {
+      if (this.isSaveBlocked()) return;
+      // Failures reach open() or the error event
+      await this.save().catch(() => {});
+    };
+
+    this.container.addEventListener(
+      "keydown",
+      (e) => this.handleKeyDown(e, save, cancel),
+      { signal },
+    );
+
     // Create modal
     const modal = document.createElement("div");
     modal.className = "crop-image-pro-modal";
+    modal.setAttribute("part", "modal");
 
     // Header
-    const header = this.createHeader(() => {
-      this.close();
-      reject(new Error("User cancelled"));
-    });
+    const header = this.createHeader(cancel);
 
     // Content area
     const content = this.createContent();
 
     // Controls
-    const controls = this.createControls(resolve, reject);
+    const controls = this.createControls(save, cancel);
 
     // Hidden canvas
     this.canvas = document.createElement("canvas");
@@ -196,19 +1842,23 @@ export class CropImagePro {
   private createHeader(onClose: () => void): HTMLElement {
     const header = document.createElement("div");
     header.className = "crop-image-pro-header";
+    header.setAttribute("part", "header");
 
     const title = document.createElement("h3");
     title.className = "crop-image-pro-title";
-    title.textContent = "Edit Photo";
+    title.setAttribute("part", "title");
+    title.textContent = this.options.labels.title;
 
     const closeBtn = document.createElement("button");
     closeBtn.className = "crop-image-pro-close-btn";
+    closeBtn.setAttribute("part", "button close-button");
     closeBtn.innerHTML = this.getIconSVG("close");
-    closeBtn.setAttribute("aria-label", "Close");
+    closeBtn.setAttribute("aria-label", this.options.labels.close);
     closeBtn.onclick = onClose;
 
     header.appendChild(title);
-    header.appendChild(closeBtn);
+    // Inline editors are removed by the host page, not by the user
+    if (!this.inline) header.appendChild(closeBtn);
 
     return header;
   }
@@ -219,18 +1869,17 @@ export class CropImagePro {
   private createContent(): HTMLElement {
     const content = document.createElement("div");
     content.className = "crop-image-pro-content";
-    content.id = "crop-image-pro-content";
+    content.setAttribute("part", "content");
     this.contentElement = content;
 
     if (this.isLoading) {
       // Show loading state
       const loadingDiv = document.createElement("div");
       loadingDiv.className = "crop-image-pro-loading";
-      loadingDiv.id = "crop-loading";
-      loadingDiv.innerHTML = `
-        ${this.getIconSVG("loader")}
-        <p>Loading image...</p>
-      `;
+      loadingDiv.innerHTML = this.getIconSVG("loader");
+      const message = document.createElement("p");
+      message.textContent = this.options.labels.loading;
+      loadingDiv.appendChild(message);
       content.appendChild(loadingDiv);
     } else {
       // Show image content
@@ -246,37 +1895,49 @@ export class CropImagePro {
   private createImageContent(content: HTMLElement): void {
     const imageWrapper = document.createElement("div");
     imageWrapper.className = "crop-image-pro-image-wrapper";
-    imageWrapper.id = "crop-image-wrapper";
+    this.wrapperElement = imageWrapper;
+    // Crop geometry is physical, so the image area never mirrors
+    imageWrapper.dir = "ltr";
 
     this.imgElement = document.createElement("img");
     this.imgElement.src = this.imgSrc;
-    this.imgElement.alt = "Image to crop";
+    this.imgElement.alt = this.options.labels.image;
     this.imgElement.className = "crop-image-pro-image";
-    this.imgElement.onload = () => this.initializeCrop();
+    this.imgElement.onload = () => {
+      this.initializeCrop();
+      this.restoreInitialCrop();
+      this.lastCrop = this.getNaturalCropRect();
+      this.emit("ready", {
+        width: this.imgElement!.naturalWidth,
+        height: this.imgElement!.naturalHeight,
+        crop: this.lastCrop,
+      });
+    };
+    this.imgElement.onerror = () => this.closeWith(new ImageDecodeError());
 
     const cropOverlay = document.createElement("div");
     cropOverlay.className = "crop-image-pro-crop-overlay";
-    cropOverlay.id = "crop-overlay";
+    cropOverlay.setAttribute("part", "crop-area");
+    this.overlayElement = cropOverlay;
+    cropOverlay.tabIndex = 0;
+    cropOverlay.setAttribute("aria-label", this.options.labels.cropArea);
 
     imageWrapper.appendChild(this.imgElement);
     imageWrapper.appendChild(cropOverlay);
     content.appendChild(imageWrapper);
 
     // Set up crop interaction
-    this.setupCropInteraction(cropOverlay);
+    this.setupCropInteraction(cropOverlay, imageWrapper);
   }
 
   /**
    * Shows the image content after loading is complete
    */
   private showImageContent(): void {
-    if (!this.contentElement) return;
+    if (!this.contentElement || !this.listeners) return;
 
     // Remove loading state
-    const loadingDiv = document.getElementById("crop-loading");
-    if (loadingDiv) {
-      loadingDiv.remove();
-    }
+    this.contentElement.querySelector(".crop-image-pro-loading")?.remove();
 
     // Add image content
     this.isLoading = false;
@@ -287,11 +1948,12 @@ export class CropImagePro {
    * Creates control buttons and sliders
    */
   private createControls(
-    resolve: (result: CropResult) => void,
-    reject: (error: Error) => void,
+    onSave: () => Promise<void>,
+    onCancel: () => void,
   ): HTMLElement {
     const controls = document.createElement("div");
     controls.className = "crop-image-pro-controls";
+    controls.setAttribute("part", "controls");
 
     // Tool controls
     const toolControls = document.createElement("div");
@@ -317,31 +1979,35 @@ export class CropImagePro {
 
     const cancelBtn = document.createElement("button");
     cancelBtn.className = "crop-image-pro-btn crop-image-pro-btn-secondary";
-    cancelBtn.textContent = "Cancel";
-    cancelBtn.onclick = () => {
-      this.close();
-      reject(new Error("User cancelled"));
-    };
+    cancelBtn.setAttribute("part", "button cancel-button");
+    cancelBtn.textContent = this.options.labels.cancel;
+    cancelBtn.onclick = onCancel;
 
     const saveBtn = document.createElement("button");
     saveBtn.type = "button";
     saveBtn.className = "crop-image-pro-btn crop-image-pro-btn-primary";
-    saveBtn.innerHTML = this.getIconSVG("check") + "<span>Save Photo</span>";
+    saveBtn.setAttribute("part", "button save-button");
+    const saveLabel = document.createElement("span");
+    saveLabel.textContent = this.options.labels.save;
+    saveBtn.innerHTML = this.getIconSVG("check");
+    saveBtn.appendChild(saveLabel);
     saveBtn.onclick = async (e: MouseEvent) => {
       e.preventDefault();
-      try {
-        const result = await this.handleSave();
-        this.close();
-        resolve(result);
-      } catch (error) {
-        reject(error as Error);
-      }
+      await onSave();
     };
 
-    actions.appendChild(cancelBtn);
+    if (!this.inline) actions.appendChild(cancelBtn);
     actions.appendChild(saveBtn);
 
+    // Shown when the crop is below minOutputSize
+    const warning = document.createElement("div");
+    warning.className = "crop-image-pro-warning";
+    warning.setAttribute("part", "warning");
+    warning.setAttribute("role", "status");
+    warning.hidden = true;
+
     controls.appendChild(toolControls);
+    controls.appendChild(warning);
     controls.appendChild(actions);
 
     return controls;
@@ -356,31 +2022,28 @@ export class CropImagePro {
 
     const zoomOutBtn = document.createElement("button");
     zoomOutBtn.className = "crop-image-pro-icon-btn";
+    zoomOutBtn.setAttribute("part", "button icon-button");
     zoomOutBtn.innerHTML = this.getIconSVG("zoom-out");
-    zoomOutBtn.title = "Zoom Out";
+    zoomOutBtn.title = this.options.labels.zoomOut;
     zoomOutBtn.onclick = () => this.adjustScale(-0.1);
 
     const slider = document.createElement("input");
     slider.type = "range";
-    slider.min = "0.1"; // updated to fitScale in initializeCrop
+    slider.min = "0.1"; // updated to getMinScale() in initializeCrop
     slider.max = "3"; // updated to max(3, coverScale) in initializeCrop
     slider.step = "0.05";
     slider.value = "1";
-    slider.className = "crop-image-pro-slider";
+    slider.className = "crop-image-pro-slider crop-image-pro-zoom-slider";
+    slider.setAttribute("part", "slider");
     slider.oninput = (e) => {
-      const fitScale = this.getFitScale();
-      this.scale = Math.max(
-        fitScale,
-        parseFloat((e.target as HTMLInputElement).value),
-      );
-      this.updateImageTransform();
-      this.constrainCropToBounds();
+      this.setScale(parseFloat((e.target as HTMLInputElement).value));
     };
 
     const zoomInBtn = document.createElement("button");
     zoomInBtn.className = "crop-image-pro-icon-btn";
+    zoomInBtn.setAttribute("part", "button icon-button");
     zoomInBtn.innerHTML = this.getIconSVG("zoom-in");
-    zoomInBtn.title = "Zoom In";
+    zoomInBtn.title = this.options.labels.zoomIn;
     zoomInBtn.onclick = () => this.adjustScale(0.1);
 
     group.appendChild(zoomOutBtn);
@@ -391,7 +2054,7 @@ export class CropImagePro {
   }
 
   /**
-   * Creates transform control group (rotate, aspect lock)
+   * Creates transform control group (rotate, straighten, flip, aspect lock)
    */
   private createTransformControls(): HTMLElement {
     const group = document.createElement("div");
@@ -399,37 +2062,264 @@ export class CropImagePro {
 
     const rotateBtn = document.createElement("button");
     rotateBtn.className = "crop-image-pro-icon-btn";
+    rotateBtn.setAttribute("part", "button icon-button");
     rotateBtn.innerHTML = this.getIconSVG("rotate");
-    rotateBtn.title = "Rotate 90°";
+    rotateBtn.title = this.options.labels.rotate;
     rotateBtn.onclick = () => this.rotateImage();
 
+    const straightenGroup = this.createStraightenControl();
+
+    const flipHBtn = this.createFlipButton("horizontal");
+    const flipVBtn = this.createFlipButton("vertical");
+
     const divider = document.createElement("div");
     divider.className = "crop-image-pro-divider";
 
-    const aspectBtn = document.createElement("button");
-    aspectBtn.className =
-      "crop-image-pro-icon-btn crop-image-pro-aspect-btn active";
-    aspectBtn.innerHTML = this.getIconSVG("lock") + "<span>Fixed</span>";
-    aspectBtn.title = "Toggle Aspect Ratio Lock";
-    aspectBtn.onclick = () => {
-      this.isFixedAspect = !this.isFixedAspect;
-      aspectBtn.classList.toggle("active");
-      aspectBtn.innerHTML = this.isFixedAspect
-        ? this.getIconSVG("lock") + "<span>Fixed</span>"
-        : this.getIconSVG("unlock") + "<span>Free</span>";
-
-      if (this.isFixedAspect && this.imgElement) {
-        this.initializeCrop();
-      }
-    };
+    const aspectGroup = this.createAspectControls();
 
     group.appendChild(rotateBtn);
+    group.appendChild(straightenGroup);
+    group.appendChild(flipHBtn);
+    group.appendChild(flipVBtn);
     group.appendChild(divider);
-    group.appendChild(aspectBtn);
+    group.appendChild(aspectGroup);
+
+    return group;
+  }
+
+  /**
+   * Creates the aspect ratio preset bar and the portrait/landscape swap
+   */
+  private createAspectControls(): HTMLElement {
+    const group = document.createElement("div");
+    group.className = "crop-image-pro-aspect-presets";
+    group.setAttribute("role", "group");
+    group.setAttribute("aria-label", this.options.labels.aspectRatio);
+
+    this.options.aspectRatioPresets.forEach((preset) => {
+      const btn = document.createElement("button");
+      btn.className = "crop-image-pro-icon-btn crop-image-pro-aspect-btn";
+      btn.setAttribute("part", "button icon-button");
+      const label = document.createElement("span");
+      if (preset === "free") {
+        label.textContent = this.options.labels.free;
+        btn.innerHTML = this.getIconSVG("unlock");
+        btn.appendChild(label);
+        btn.title = this.options.labels.freeAspectRatio;
+        btn.dataset.aspect = "free";
+        btn.onclick = () => this.setAspect(null);
+      } else {
+        label.textContent = preset.label;
+        btn.innerHTML = this.getIconSVG("lock");
+        btn.appendChild(label);
+        btn.title = this.options.labels.aspectRatioPreset(preset.label);
+        btn.dataset.aspect = preset.value.toString();
+        // Keep the current orientation when switching presets
+        btn.onclick = () =>
+          this.setAspect(
+            this.isPortrait() && preset.value > 1
+              ? 1 / preset.value
+              : preset.value,
+          );
+      }
+      group.appendChild(btn);
+    });
 
+    const swapBtn = document.createElement("button");
+    swapBtn.className = "crop-image-pro-icon-btn crop-image-pro-swap-btn";
+    swapBtn.setAttribute("part", "button icon-button");
+    swapBtn.innerHTML = this.getIconSVG("swap");
+    swapBtn.title = this.options.labels.swapOrientation;
+    swapBtn.onclick = () => this.setAspect(1 / this.options.aspectRatio);
+    group.appendChild(swapBtn);
+
+    this.syncAspectControls(group);
     return group;
   }
 
+  /**
+   * Whether the locked aspect ratio is taller than it is wide
+   */
+  private isPortrait(): boolean {
+    return this.isFixedAspect && this.options.aspectRatio < 1;
+  }
+
+  /**
+   * Highlight the preset matching the current aspect ratio (in either
+   * orientation) and disable the swap button where it has no effect
+   */
+  private syncAspectControls(
+    group = this.container?.querySelector(".crop-image-pro-aspect-presets"),
+  ): void {
+    if (!group) return;
+    const ratio = this.options.aspectRatio;
+    group
+      .querySelectorAll<HTMLButtonElement>(".crop-image-pro-aspect-btn")
+      .forEach((btn) => {
+        const value = parseFloat(btn.dataset.aspect!);
+        const active =
+          btn.dataset.aspect === "free"
+            ? !this.isFixedAspect
+            : this.isFixedAspect &&
+              (Math.abs(value - ratio) < 1e-6 ||
+                Math.abs(1 / value - ratio) < 1e-6);
+        btn.classList.toggle("active", active);
+        btn.setAttribute("aria-pressed", String(active));
+      });
+
+    const swapBtn = group.querySelector<HTMLButtonElement>(
+      ".crop-image-pro-swap-btn",
+    );
+    if (swapBtn) {
+      swapBtn.disabled = !this.isFixedAspect || Math.abs(ratio - 1) < 1e-6;
+    }
+  }
+
+  /**
+   * Lock the crop to an aspect ratio (or unlock it with null), re-fitting
+   * the current crop around its centre
+   */
+  private setAspect(ratio: number | null): void {
+    if (ratio !== null) {
+      ratio = this.clampAspectRatio(ratio);
+    }
+    const locked = ratio !== null;
+    const changed =
+      locked !== this.isFixedAspect ||
+      (locked && ratio !== this.options.aspectRatio);
+    this.isFixedAspect = locked;
+    if (ratio !== null) {
+      this.options.aspectRatio = ratio;
+    }
+    this.syncAspectControls();
+
+    if (this.imgElement) {
+      this.fitCropToAspect();
+    }
+    if (changed) {
+      this.emit("aspectlockchange", { locked, aspectRatio: ratio });
+    }
+  }
+
+  /**
+   * Reshape the crop to the locked aspect ratio (or, unlocked, into the
+   * aspect ratio range) around its centre, keeping its area, then shrink
+   * and shift it to stay on the image
+   */
+  private fitCropToAspect(): void {
+    const aspect = this.isFixedAspect
+      ? this.options.aspectRatio
+      : this.clampAspectRatio(this.crop.width / this.crop.height);
+    const bounds = this.getImageBoundsInWrapper();
+    const availW = bounds.right - bounds.left;
+    const availH = bounds.bottom - bounds.top;
+
+    const centerX = this.crop.x + this.crop.width / 2;
+    const centerY = this.crop.y + this.crop.height / 2;
+    let width = Math.sqrt(this.crop.width * this.crop.height * aspect);
+    let height = width / aspect;
+    const shrink = Math.min(1, availW / width, availH / height);
+    width *= shrink;
+    height *= shrink;
+
+    this.crop = {
+      x: centerX - width / 2,
+      y: centerY - height / 2,
+      width,
+      height,
+    };
+    this.constrainCropToBounds();
+  }
+
+  /**
+   * Limit a width/height ratio to minAspectRatio..maxAspectRatio
+   */
+  private clampAspectRatio(ratio: number): number {
+    const { minAspectRatio, maxAspectRatio } = this.options;
+    if (minAspectRatio !== null) ratio = Math.max(minAspectRatio, ratio);
+    if (maxAspectRatio !== null) ratio = Math.min(maxAspectRatio, ratio);
+    return ratio;
+  }
+
+  /**
+   * Shrink one side of a crop until its ratio is within the aspect ratio
+   * range
+   */
+  private clampToAspectRange(
+    width: number,
+    height: number,
+  ): { width: number; height: number } {
+    const ratio = this.clampAspectRatio(width / height);
+    return ratio < width / height
+      ? { width: height * ratio, height }
+      : { width, height: width / ratio };
+  }
+
+  /**
+   * Creates a toggle button that mirrors the image along one axis
+   */
+  private createFlipButton(axis: "horizontal" | "vertical"): HTMLElement {
+    const isHorizontal = axis === "horizontal";
+    const btn = document.createElement("button");
+    btn.className = "crop-image-pro-icon-btn crop-image-pro-flip-btn";
+    btn.setAttribute("part", "button icon-button");
+    btn.innerHTML = this.getIconSVG(isHorizontal ? "flip-h" : "flip-v");
+    btn.title = isHorizontal
+      ? this.options.labels.flipHorizontal
+      : this.options.labels.flipVertical;
+
+    btn.dataset.axis = axis;
+    this.syncFlipButton(btn);
+
+    btn.onclick = () => {
+      this.flipImage(axis);
+      this.syncFlipButton(btn);
+    };
+
+    return btn;
+  }
+
+  /**
+   * Reflect the current flip state in a flip button's pressed state
+   */
+  private syncFlipButton(btn: HTMLElement): void {
+    const active = btn.dataset.axis === "horizontal" ? this.flipX : this.flipY;
+    btn.classList.toggle("active", active);
+    btn.setAttribute("aria-pressed", String(active));
+  }
+
+  /**
+   * Creates the fine rotation slider used to straighten tilted photos
+   */
+  private createStraightenControl(): HTMLElement {
+    const wrapper = document.createElement("div");
+    wrapper.className = "crop-image-pro-straighten";
+
+    const slider = document.createElement("input");
+    slider.type = "range";
+    slider.min = "-45";
+    slider.max = "45";
+    slider.step = "0.1";
+    slider.value = this.straighten.toString();
+    slider.className = "crop-image-pro-slider crop-image-pro-straighten-slider";
+    slider.setAttribute("part", "slider");
+    slider.title = this.options.labels.straighten;
+    slider.setAttribute("aria-label", this.options.labels.straighten);
+
+    const readout = document.createElement("span");
+    readout.className = "crop-image-pro-angle";
+    readout.textContent = `${this.straighten.toFixed(1)}°`;
+
+    slider.oninput = (e) => {
+      this.setStraighten(parseFloat((e.target as HTMLInputElement).value));
+    };
+
+    wrapper.appendChild(slider);
+    wrapper.appendChild(readout);
+
+    return wrapper;
+  }
+
   /**
    * Initialize crop area centred in the wrapper. Called once when the
    * image first loads. Also enforces minimum scale so there are never
@@ -437,23 +2327,23 @@ export class CropImagePro {
    */
   private initializeCrop(): void {
     if (!this.imgElement) return;
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return;
 
     // Start at cover scale (image fills wrapper). Allow zooming out to fit scale
     // so the user can see the entire image and crop any part of it.
     const coverScale = this.getCoverScale();
-    const fitScale = this.getFitScale();
+    const minScale = this.getMinScale();
     if (this.scale < coverScale) {
       this.scale = coverScale;
     }
 
     const slider = this.container?.querySelector(
-      ".crop-image-pro-slider",
+      ".crop-image-pro-zoom-slider",
     ) as HTMLInputElement;
     if (slider) {
-      slider.min = fitScale.toString();
-      slider.max = Math.max(3, coverScale).toString();
+      slider.min = minScale.toString();
+      slider.max = this.getMaxScale().toString();
       slider.value = this.scale.toString();
     }
     this.applyImageTransformCSS();
@@ -478,10 +2368,47 @@ export class CropImagePro {
       y: bounds.top + (availH - cropHeight) / 2,
       width: cropWidth,
       height: cropHeight,
-      unit: "%",
     };
 
-    this.updateCropOverlay();
+    this.constrainCropToBounds();
+  }
+
+  /**
+   * Apply the transform, zoom and rect of options.initialCrop on top of the
+   * default crop. Skipped if the recipe was made for a different-sized image.
+   */
+  private restoreInitialCrop(): void {
+    const recipe = this.options.initialCrop;
+    if (!recipe || !this.imgElement) return;
+    const { naturalWidth, naturalHeight } = this.imgElement;
+    if (
+      (recipe.imageWidth !== undefined && recipe.imageWidth !== naturalWidth) ||
+      (recipe.imageHeight !== undefined && recipe.imageHeight !== naturalHeight)
+    ) {
+      return;
+    }
+
+    this.rotate = recipe.rotate ?? 0;
+    this.straighten = recipe.straighten ?? 0;
+    this.flipX = recipe.flip?.horizontal ?? this.flipX;
+    this.flipY = recipe.flip?.vertical ?? this.flipY;
+    if (recipe.aspectRatio !== undefined) {
+      this.isFixedAspect = recipe.aspectRatio !== null;
+      this.options.aspectRatio = recipe.aspectRatio ?? this.options.aspectRatio;
+    }
+    this.syncStraightenControl();
+    this.container
+      ?.querySelectorAll<HTMLElement>(".crop-image-pro-flip-btn")
+      .forEach((btn) => this.syncFlipButton(btn));
+    this.syncAspectControls();
+
+    // The rotated bounds differ, so rebuild the default crop from cover scale
+    this.scale = 1;
+    this.initializeCrop();
+    if (recipe.scale !== undefined) {
+      this.setScale(recipe.scale);
+    }
+    this.applyCrop({ ...recipe.rect });
   }
 
   /**
@@ -490,11 +2417,12 @@ export class CropImagePro {
    */
   private constrainCropToBounds(): void {
     const bounds = this.getImageBoundsInWrapper();
-    const maxW = bounds.right - bounds.left;
-    const maxH = bounds.bottom - bounds.top;
-
-    this.crop.width = Math.min(this.crop.width, maxW);
-    this.crop.height = Math.min(this.crop.height, maxH);
+    const { width, height } = this.clampCropSize(
+      this.crop.width,
+      this.crop.height,
+    );
+    this.crop.width = width;
+    this.crop.height = height;
     this.crop.x = Math.max(
       bounds.left,
       Math.min(this.crop.x, bounds.right - this.crop.width),
@@ -507,72 +2435,343 @@ export class CropImagePro {
     this.updateCropOverlay();
   }
 
+  /** Smallest on-screen crop when no minCropSize is set, to keep handles usable */
+  private static readonly MIN_CROP_PIXELS = 50;
+
+  /**
+   * Limit an on-screen crop size to minCropSize..maxCropSize (given in
+   * natural pixels) and the visible image area. Locked crops are scaled as
+   * a whole so they keep their aspect ratio.
+   */
+  private clampCropSize(
+    width: number,
+    height: number,
+  ): { width: number; height: number } {
+    const { minCropSize, maxCropSize } = this.options;
+    const perPixel = this.getNaturalPerPixel();
+    const bounds = this.getImageBoundsInWrapper();
+    const maxW = Math.min(
+      bounds.right - bounds.left,
+      maxCropSize.width / perPixel,
+    );
+    const maxH = Math.min(
+      bounds.bottom - bounds.top,
+      maxCropSize.height / perPixel,
+    );
+    const minW = Math.min(
+      maxW,
+      minCropSize.width > 0
+        ? minCropSize.width / perPixel
+        : CropImagePro.MIN_CROP_PIXELS,
+    );
+    const minH = Math.min(
+      maxH,
+      minCropSize.height > 0
+        ? minCropSize.height / perPixel
+        : CropImagePro.MIN_CROP_PIXELS,
+    );
+
+    if (this.isFixedAspect) {
+      const grow = Math.max(1, minW / width, minH / height);
+      const k = Math.min(grow, maxW / width, maxH / height);
+      return { width: width * k, height: height * k };
+    }
+    return {
+      width: Math.max(minW, Math.min(width, maxW)),
+      height: Math.max(minH, Math.min(height, maxH)),
+    };
+  }
+
+  /**
+   * Update crop overlay position and size
+   */
+  private updateCropOverlay(): void {
+    const overlay = this.overlayElement;
+    if (!overlay || !this.imgElement) return;
+
+    overlay.style.left = `${this.crop.x}px`;
+    overlay.style.top = `${this.crop.y}px`;
+    overlay.style.width = `${this.crop.width}px`;
+    overlay.style.height = `${this.crop.height}px`;
+
+    if (this.isCircularCrop()) {
+      overlay.style.borderRadius = "50%";
+    } else {
+      overlay.style.borderRadius = "0";
+    }
+
+    this.updateResolutionWarning();
+    this.notifyCropChange();
+  }
+
+  /**
+   * Whether the crop has fewer natural pixels than minOutputSize, so the
+   * output would have to be upscaled
+   */
+  private isLowResolution(): boolean {
+    const { minOutputSize } = this.options;
+    const crop = this.getNaturalCropRect();
+    // Half a pixel of slack for rounding in the screen-to-natural mapping
+    return (
+      crop.width < minOutputSize.width - 0.5 ||
+      crop.height < minOutputSize.height - 0.5
+    );
+  }
+
+  /**
+   * Whether Save is disabled because the crop is too small
+   */
+  private isSaveBlocked(): boolean {
+    return this.options.lowResolution === "block" && this.isLowResolution();
+  }
+
+  /**
+   * Show or hide the low-resolution warning and, in "block" mode, disable
+   * Save while the crop is below minOutputSize
+   */
+  private updateResolutionWarning(): void {
+    const warning = this.container?.querySelector(
+      ".crop-image-pro-warning",
+    ) as HTMLElement;
+    if (!warning) return;
+
+    const low = this.isLowResolution();
+    warning.hidden = !low;
+    if (low) {
+      const { minOutputSize, lowResolution, labels } = this.options;
+      const crop = this.getNaturalCropRect();
+      warning.textContent = labels.lowResolution({
+        width: Math.round(crop.width),
+        height: Math.round(crop.height),
+        minWidth: minOutputSize.width,
+        minHeight: minOutputSize.height,
+        blocked: lowResolution === "block",
+      });
+    }
+
+    const saveBtn = this.container?.querySelector(
+      ".crop-image-pro-btn-primary",
+    ) as HTMLButtonElement;
+    if (saveBtn) {
+      saveBtn.disabled = this.isSaveBlocked();
+    }
+  }
+
+  /**
+   * Emit cropchange when the crop moved in natural pixels. Panning and
+   * zooming change it too, even when the on-screen crop stays put.
+   */
+  private notifyCropChange(): void {
+    // Nothing is reported until the ready event
+    if (!this.lastCrop) return;
+    const crop = this.getNaturalCropRect();
+    const last = this.lastCrop;
+    if (
+      crop.x === last.x &&
+      crop.y === last.y &&
+      crop.width === last.width &&
+      crop.height === last.height
+    ) {
+      return;
+    }
+    this.lastCrop = crop;
+    this.emit("cropchange", crop);
+  }
+
+  /**
+   * Whether the crop is shown (and exported) as a circle. Only square,
+   * aspect-locked crops are circular; unlocking falls back to a rectangle.
+   */
+  private isCircularCrop(): boolean {
+    return (
+      this.options.circularCrop &&
+      this.isFixedAspect &&
+      this.options.aspectRatio === 1
+    );
+  }
+
+  /**
+   * Set up crop interaction (drag and resize with any pointer, plus
+   * two-finger pinch-zoom and pan on touch screens)
+   */
+  private setupCropInteraction(
+    overlay: HTMLElement,
+    wrapper: HTMLElement,
+  ): void {
+    const { signal } = this.listeners!;
+
+    // Add resize handles
+    const handles = ["nw", "ne", "sw", "se", "n", "s", "e", "w"];
+    handles.forEach((handle) => {
+      const div = document.createElement("div");
+      div.className = `crop-handle crop-handle-${handle}`;
+      div.setAttribute("part", `handle handle-${handle}`);
+      div.dataset.handle = handle;
+      overlay.appendChild(div);
+
+      div.addEventListener(
+        "pointerdown",
+        (e) => {
+          if (this.activePointers.size > 0) return;
+          e.stopPropagation();
+          this.trackPointer(e);
+          this.isResizing = true;
+          this.resizeHandle = handle;
+          this.dragStart = { x: e.clientX, y: e.clientY };
+        },
+        { signal },
+      );
+    });
+
+    // Drag to move
+    overlay.addEventListener(
+      "pointerdown",
+      (e) => {
+        if (this.isResizing || this.activePointers.size > 0) return;
+        this.isDragging = true;
+        this.dragStart = {
+          x: e.clientX - this.crop.x,
+          y: e.clientY - this.crop.y,
+        };
+      },
+      { signal },
+    );
+
+    // Every pointer on the image is tracked so a second finger starts a pinch
+    wrapper.addEventListener(
+      "pointerdown",
+      (e) => {
+        this.trackPointer(e);
+        if (this.activePointers.size === 2) {
+          this.startPinch();
+        }
+      },
+      { signal },
+    );
+
+    // Mouse wheel and trackpad pinch (reported as ctrl + wheel) zoom
+    wrapper.addEventListener(
+      "wheel",
+      (e) => {
+        e.preventDefault();
+        this.handleWheel(e, wrapper);
+      },
+      { passive: false, signal },
+    );
+
+    document.addEventListener(
+      "pointermove",
+      (e) => {
+        if (this.activePointers.has(e.pointerId)) {
+          this.activePointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        }
+
+        if (this.pinchStart) {
+          this.handlePinch();
+        } else if (this.isDragging) {
+          this.handleDrag(e);
+        } else if (this.isResizing) {
+          this.handleResize(e);
+        }
+      },
+      { signal },
+    );
+
+    const endPointer = (e: PointerEvent) => {
+      this.activePointers.delete(e.pointerId);
+      this.pinchStart = null;
+      this.isDragging = false;
+      this.isResizing = false;
+      this.resizeHandle = "";
+    };
+    document.addEventListener("pointerup", endPointer, { signal });
+    document.addEventListener("pointercancel", endPointer, { signal });
+  }
+
+  /**
+   * Remember a pointer and capture it, so drags keep working when the
+   * pointer leaves the element (or the browser window)
+   */
+  private trackPointer(e: PointerEvent): void {
+    if (this.activePointers.has(e.pointerId)) return;
+    this.activePointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  }
+
+  /**
+   * Distance and midpoint of the first two active pointers
+   */
+  private getPinchGeometry(): { distance: number; midX: number; midY: number } {
+    const [a, b] = Array.from(this.activePointers.values());
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+    };
+  }
+
   /**
-   * Update crop overlay position and size
+   * Switch from a one-finger drag/resize to a two-finger pinch
    */
-  private updateCropOverlay(): void {
-    const overlay = document.getElementById("crop-overlay");
-    if (!overlay || !this.imgElement) return;
-
-    overlay.style.left = `${this.crop.x}px`;
-    overlay.style.top = `${this.crop.y}px`;
-    overlay.style.width = `${this.crop.width}px`;
-    overlay.style.height = `${this.crop.height}px`;
-
-    if (
-      this.options.circularCrop &&
-      this.isFixedAspect &&
-      this.options.aspectRatio === 1
-    ) {
-      overlay.style.borderRadius = "50%";
-    } else {
-      overlay.style.borderRadius = "0";
-    }
+  private startPinch(): void {
+    this.isDragging = false;
+    this.isResizing = false;
+    this.resizeHandle = "";
+    this.pinchStart = {
+      ...this.getPinchGeometry(),
+      scale: this.scale,
+      panX: this.panX,
+      panY: this.panY,
+    };
   }
 
   /**
-   * Set up crop interaction (drag and resize)
+   * Pinch to zoom (finger spread drives scale) and pan (midpoint movement
+   * drives panX/panY), clamped the same way as the zoom buttons
    */
-  private setupCropInteraction(overlay: HTMLElement): void {
-    // Add resize handles
-    const handles = ["nw", "ne", "sw", "se", "n", "s", "e", "w"];
-    handles.forEach((handle) => {
-      const div = document.createElement("div");
-      div.className = `crop-handle crop-handle-${handle}`;
-      div.dataset.handle = handle;
-      overlay.appendChild(div);
-
-      div.addEventListener("mousedown", (e) => {
-        e.stopPropagation();
-        this.isResizing = true;
-        this.resizeHandle = handle;
-        this.dragStart = { x: e.clientX, y: e.clientY };
-      });
-    });
-
-    // Drag to move
-    overlay.addEventListener("mousedown", (e) => {
-      if (this.isResizing) return;
-      this.isDragging = true;
-      this.dragStart = {
-        x: e.clientX - this.crop.x,
-        y: e.clientY - this.crop.y,
-      };
-    });
+  private handlePinch(): void {
+    if (!this.pinchStart || this.activePointers.size < 2) return;
+    const start = this.pinchStart;
+    const { distance, midX, midY } = this.getPinchGeometry();
+    if (start.distance === 0) return;
+
+    this.panX = start.panX + (midX - start.midX);
+    this.panY = start.panY + (midY - start.midY);
+    this.setScale(start.scale * (distance / start.distance));
+  }
 
-    document.addEventListener("mousemove", (e) => {
-      if (this.isDragging) {
-        this.handleDrag(e);
-      } else if (this.isResizing) {
-        this.handleResize(e);
-      }
-    });
+  /** Zoom sensitivity per wheel pixel; trackpad pinch deltas are much smaller */
+  private static readonly WHEEL_ZOOM_SPEED = 0.002;
+  private static readonly PINCH_ZOOM_SPEED = 0.01;
 
-    document.addEventListener("mouseup", () => {
-      this.isDragging = false;
-      this.isResizing = false;
-      this.resizeHandle = "";
-    });
+  /**
+   * Zoom around the pointer: the image point under the cursor stays put.
+   *
+   * The image centre sits at the wrapper centre offset by the pan, so a
+   * point p (relative to the wrapper centre) maps to (p − pan) / s in the
+   * image. Keeping that fixed while s becomes s' gives
+   * pan' = p − (p − pan) · s' / s.
+   */
+  private handleWheel(e: WheelEvent, wrapper: HTMLElement): void {
+    if (!this.imgElement) return;
+    // Line-based deltas (Firefox) are roughly 16px per line
+    const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    const speed = e.ctrlKey
+      ? CropImagePro.PINCH_ZOOM_SPEED
+      : CropImagePro.WHEEL_ZOOM_SPEED;
+    const next = Math.max(
+      this.getMinScale(),
+      Math.min(this.getMaxScale(), this.scale * Math.exp(-delta * speed)),
+    );
+    if (next === this.scale) return;
+
+    const rect = wrapper.getBoundingClientRect();
+    const px = e.clientX - rect.left - rect.width / 2;
+    const py = e.clientY - rect.top - rect.height / 2;
+    const ratio = next / this.scale;
+    this.panX = px - (px - this.panX) * ratio;
+    this.panY = py - (py - this.panY) * ratio;
+    this.setScale(next);
   }
 
   /** How much of the overflow to pan per mouse-move (0–1). Lower = slower. */
@@ -588,7 +2787,7 @@ export class CropImagePro {
    */
   private handleDrag(e: MouseEvent): void {
     if (!this.imgElement) return;
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return;
 
     const wW = wrapper.clientWidth;
@@ -601,36 +2800,29 @@ export class CropImagePro {
     // ── Smooth auto-pan when image is zoomed past the cover scale ──
     const coverScale = this.getCoverScale();
     if (this.scale > coverScale) {
-      const { w: baseW, h: baseH } = this.getBaseImageSize();
-      const s = this.scale;
       const speed = CropImagePro.PAN_SPEED;
 
-      // Analytical pan limits (image must cover wrapper)
-      const panXMin = wW / 2 - (baseW * s) / 2;
-      const panXMax = (baseW * s) / 2 - wW / 2;
-      const panYMin = wH / 2 - (baseH * s) / 2;
-      const panYMax = (baseH * s) / 2 - wH / 2;
-
       // Right edge — crop wants to go past wrapper right
       const overR = desiredX + this.crop.width - wW;
-      if (overR > 0 && this.panX > panXMin) {
-        this.panX = Math.max(panXMin, this.panX - overR * speed);
+      if (overR > 0) {
+        this.panX -= overR * speed;
       }
       // Left edge
-      if (desiredX < 0 && this.panX < panXMax) {
-        this.panX = Math.min(panXMax, this.panX + -desiredX * speed);
+      if (desiredX < 0) {
+        this.panX += -desiredX * speed;
       }
       // Bottom edge
       const overB = desiredY + this.crop.height - wH;
-      if (overB > 0 && this.panY > panYMin) {
-        this.panY = Math.max(panYMin, this.panY - overB * speed);
+      if (overB > 0) {
+        this.panY -= overB * speed;
       }
       // Top edge
-      if (desiredY < 0 && this.panY < panYMax) {
-        this.panY = Math.min(panYMax, this.panY + -desiredY * speed);
+      if (desiredY < 0) {
+        this.panY += -desiredY * speed;
       }
 
-      this.applyImageTransformCSS();
+      // Pull the pan back inside the (possibly rotated) image limits
+      this.constrainPan();
     }
 
     // Clamp crop to the actual image area (handles both zoomed-in and zoomed-out)
@@ -651,31 +2843,37 @@ export class CropImagePro {
    */
   private handleResize(e: MouseEvent): void {
     if (!this.imgElement) return;
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return;
 
-    const deltaX = e.clientX - this.dragStart.x;
-    const deltaY = e.clientY - this.dragStart.y;
+    this.resizeCrop(
+      this.resizeHandle,
+      e.clientX - this.dragStart.x,
+      e.clientY - this.dragStart.y,
+    );
+    this.dragStart = { x: e.clientX, y: e.clientY };
+  }
 
+  /**
+   * Resize the crop by dragging the given handle by (deltaX, deltaY),
+   * keeping the aspect ratio when locked and staying within the image.
+   */
+  private resizeCrop(handle: string, deltaX: number, deltaY: number): void {
     let newWidth = this.crop.width;
     let newHeight = this.crop.height;
     let newX = this.crop.x;
     let newY = this.crop.y;
 
-    const handle = this.resizeHandle;
-
     if (handle.includes("e")) {
       newWidth = this.crop.width + deltaX;
     } else if (handle.includes("w")) {
       newWidth = this.crop.width - deltaX;
-      newX = this.crop.x + deltaX;
     }
 
     if (handle.includes("s")) {
       newHeight = this.crop.height + deltaY;
     } else if (handle.includes("n")) {
       newHeight = this.crop.height - deltaY;
-      newY = this.crop.y + deltaY;
     }
 
     if (this.isFixedAspect) {
@@ -687,12 +2885,25 @@ export class CropImagePro {
       }
     }
 
-    // Clamp to the actual image area
+    // Free crops stay within the aspect ratio range
+    if (!this.isFixedAspect) {
+      ({ width: newWidth, height: newHeight } = this.clampToAspectRange(
+        newWidth,
+        newHeight,
+      ));
+    }
+
+    // Clamp to the crop size limits and the actual image area
+    ({ width: newWidth, height: newHeight } = this.clampCropSize(
+      newWidth,
+      newHeight,
+    ));
+
+    // Keep the edge opposite the dragged handle in place
+    if (handle.includes("w")) newX = this.crop.x + this.crop.width - newWidth;
+    if (handle.includes("n")) newY = this.crop.y + this.crop.height - newHeight;
+
     const bounds = this.getImageBoundsInWrapper();
-    const availW = bounds.right - bounds.left;
-    const availH = bounds.bottom - bounds.top;
-    newWidth = Math.max(50, Math.min(newWidth, availW));
-    newHeight = Math.max(50, Math.min(newHeight, availH));
     newX = Math.max(bounds.left, Math.min(newX, bounds.right - newWidth));
     newY = Math.max(bounds.top, Math.min(newY, bounds.bottom - newHeight));
 
@@ -701,28 +2912,154 @@ export class CropImagePro {
     this.crop.x = newX;
     this.crop.y = newY;
 
-    this.dragStart = { x: e.clientX, y: e.clientY };
     this.updateCropOverlay();
   }
 
+  /** Pixels moved or resized per arrow key press. */
+  private static readonly KEYBOARD_STEP = 10;
+
+  /**
+   * Keyboard control of the editor:
+   *   Arrow keys move the crop, Shift + arrows resize it,
+   *   +/- zoom, R rotates, Enter saves, Escape cancels.
+   * Tab and Shift+Tab cycle focus within the dialog.
+   */
+  private handleKeyDown(
+    e: KeyboardEvent,
+    onSave: () => Promise<void>,
+    onCancel: () => void,
+  ): void {
+    const target = e.target as HTMLElement;
+    const isSlider = target instanceof HTMLInputElement;
+    const isButton = target instanceof HTMLButtonElement;
+    const step = CropImagePro.KEYBOARD_STEP;
+
+    // An inline editor is part of the page: Tab leaves it, Escape is ignored
+    if (e.key === "Tab") {
+      if (!this.inline) this.trapFocus(e);
+      return;
+    }
+    if (e.key === "Escape") {
+      if (this.inline) return;
+      e.preventDefault();
+      onCancel();
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case "Enter":
+        // Focused buttons handle Enter themselves
+        if (isButton || this.isLoading) return;
+        e.preventDefault();
+        onSave();
+        return;
+      case "+":
+      case "=":
+        this.adjustScale(0.1);
+        break;
+      case "-":
+      case "_":
+        this.adjustScale(-0.1);
+        break;
+      case "r":
+      case "R":
+        this.rotateImage();
+        break;
+      case "ArrowLeft":
+      case "ArrowRight":
+      case "ArrowUp":
+      case "ArrowDown": {
+        // Sliders use the arrow keys themselves
+        if (isSlider || !this.imgElement) return;
+        const dx =
+          e.key === "ArrowLeft" ? -step : e.key === "ArrowRight" ? step : 0;
+        const dy =
+          e.key === "ArrowUp" ? -step : e.key === "ArrowDown" ? step : 0;
+        if (e.shiftKey) {
+          // Horizontal resizing moves the trailing edge: left in RTL
+          const edge = this.options.dir === "rtl" ? "w" : "e";
+          this.resizeCrop(dx !== 0 ? edge : "s", dx, dy);
+        } else {
+          this.crop.x += dx;
+          this.crop.y += dy;
+          this.constrainCropToBounds();
+        }
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  /**
+   * Keep Tab focus cycling inside the dialog
+   */
+  private trapFocus(e: KeyboardEvent): void {
+    if (!this.container) return;
+    const focusable = Array.from(
+      this.container.querySelectorAll<HTMLElement>(
+        'button:not([disabled]), input:not([disabled]), [tabindex="0"]',
+      ),
+    );
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    // Inside a shadow root, document.activeElement is the shadow host
+    const root = this.container.getRootNode() as Document | ShadowRoot;
+    const index = focusable.indexOf(root.activeElement as HTMLElement);
+
+    if (e.shiftKey && index <= 0) {
+      e.preventDefault();
+      last.focus();
+    } else if (
+      !e.shiftKey &&
+      (index === -1 || index === focusable.length - 1)
+    ) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
   /**
    * Adjust scale
    */
   private adjustScale(delta: number): void {
-    const fitScale = this.getFitScale();
-    const coverScale = this.getCoverScale();
-    const maxScale = Math.max(3, coverScale);
-    this.scale = Math.max(fitScale, Math.min(maxScale, this.scale + delta));
+    this.setScale(this.scale + delta);
+  }
+
+  /**
+   * Set scale, clamped to the allowed zoom range, and keep the slider,
+   * pan and crop in sync
+   */
+  private setScale(value: number): void {
+    const minScale = this.getMinScale();
+    const maxScale = this.getMaxScale();
+    const previous = this.scale;
+    this.scale = Math.max(minScale, Math.min(maxScale, value));
     const slider = this.container?.querySelector(
-      ".crop-image-pro-slider",
+      ".crop-image-pro-zoom-slider",
     ) as HTMLInputElement;
     if (slider) {
-      slider.min = fitScale.toString();
+      slider.min = minScale.toString();
       slider.max = maxScale.toString();
       slider.value = this.scale.toString();
     }
     this.updateImageTransform();
     this.constrainCropToBounds();
+    // Like cropchange, nothing is reported until the ready event
+    if (this.scale !== previous && this.lastCrop) {
+      this.emit("zoom", { scale: this.scale });
+    }
+  }
+
+  /**
+   * Largest allowed zoom: 3×, or the cover scale if that is larger
+   */
+  private getMaxScale(): number {
+    return Math.max(3, this.getCoverScale());
   }
 
   /**
@@ -730,7 +3067,72 @@ export class CropImagePro {
    */
   private rotateImage(): void {
     this.rotate = (this.rotate + 90) % 360;
-    this.updateImageTransform();
+    // Width and height swap, so re-clamp zoom, pan and crop to the new bounds
+    this.adjustScale(0);
+    this.emit("rotate", { rotate: this.rotate, straighten: this.straighten });
+  }
+
+  /**
+   * Set the fine straighten angle (−45° to 45°). Any non-zero angle zooms
+   * the image up to its cover scale so the crop never shows empty corners.
+   */
+  private setStraighten(angle: number): void {
+    this.straighten = Math.max(-45, Math.min(45, angle));
+    this.syncStraightenControl();
+    this.adjustScale(0);
+    this.emit("rotate", { rotate: this.rotate, straighten: this.straighten });
+  }
+
+  /**
+   * Show the current straighten angle on the slider and its readout
+   */
+  private syncStraightenControl(): void {
+    const slider = this.container?.querySelector(
+      ".crop-image-pro-straighten-slider",
+    ) as HTMLInputElement;
+    if (slider) {
+      slider.value = this.straighten.toString();
+    }
+    const readout = this.container?.querySelector(".crop-image-pro-angle");
+    if (readout) {
+      readout.textContent = `${this.straighten.toFixed(1)}°`;
+    }
+  }
+
+  /**
+   * Mirror the view along one screen axis. The flip is applied to the source
+   * before rotating, so mirroring the rotated view also negates the rotation
+   * and the pan along that axis. Zoom and crop bounds are symmetric under
+   * this and stay valid.
+   */
+  private flipImage(axis: "horizontal" | "vertical"): void {
+    if (axis === "horizontal") {
+      this.flipX = !this.flipX;
+      this.panX = -this.panX;
+    } else {
+      this.flipY = !this.flipY;
+      this.panY = -this.panY;
+    }
+
+    const turned = this.rotate !== 0 || this.straighten !== 0;
+    if (turned) {
+      this.rotate = (360 - this.rotate) % 360;
+      // Avoid -0, which would show up in the rotate event
+      this.straighten = this.straighten === 0 ? 0 : -this.straighten;
+      this.syncStraightenControl();
+    }
+    this.applyImageTransformCSS();
+    this.notifyCropChange();
+    if (turned) {
+      this.emit("rotate", { rotate: this.rotate, straighten: this.straighten });
+    }
+  }
+
+  /**
+   * Total clockwise rotation in degrees (90° steps plus straighten angle)
+   */
+  private getRotation(): number {
+    return this.rotate + this.straighten;
   }
 
   /**
@@ -745,18 +3147,34 @@ export class CropImagePro {
     };
   }
 
+  /**
+   * Get the un-zoomed size of the image's bounding box after rotation.
+   * For quarter turns this is the base size with width/height swapped.
+   */
+  private getRotatedImageSize(): { w: number; h: number } {
+    const { w, h } = this.getBaseImageSize();
+    return getRotatedSize(w, h, this.getRotation());
+  }
+
   /**
    * Return the minimum scale that guarantees the image covers
    * the entire wrapper (no white/empty areas).
+   *
+   * Measured in the image's own (unrotated) frame: the wrapper, rotated
+   * back by the image angle, has a bounding box that the scaled image
+   * must contain. At 0° this is simply max(wW / baseW, wH / baseH).
    */
   private getCoverScale(): number {
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return 1;
     const { w: baseW, h: baseH } = this.getBaseImageSize();
     if (baseW === 0 || baseH === 0) return 1;
-    const wW = wrapper.clientWidth;
-    const wH = wrapper.clientHeight;
-    return Math.max(1, wW / baseW, wH / baseH);
+    const needed = getRotatedSize(
+      wrapper.clientWidth,
+      wrapper.clientHeight,
+      this.getRotation(),
+    );
+    return Math.max(1, needed.w / baseW, needed.h / baseH);
   }
 
   /**
@@ -764,14 +3182,22 @@ export class CropImagePro {
    * Below this scale the image would be smaller than the wrapper in every dimension.
    */
   private getFitScale(): number {
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return 1;
-    const { w: baseW, h: baseH } = this.getBaseImageSize();
-    if (baseW === 0 || baseH === 0) return 1;
+    const { w: imgW, h: imgH } = this.getRotatedImageSize();
+    if (imgW === 0 || imgH === 0) return 1;
     const wW = wrapper.clientWidth;
     const wH = wrapper.clientHeight;
     // The smaller ratio ensures the image fits in both dimensions
-    return Math.min(wW / baseW, wH / baseH);
+    return Math.min(wW / imgW, wH / imgH);
+  }
+
+  /**
+   * Return the lowest allowed zoom. A straightened image can't be zoomed
+   * out below its cover scale, otherwise its tilted corners would show.
+   */
+  private getMinScale(): number {
+    return this.straighten === 0 ? this.getFitScale() : this.getCoverScale();
   }
 
   /**
@@ -785,31 +3211,31 @@ export class CropImagePro {
     right: number;
     bottom: number;
   } {
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return { left: 0, top: 0, right: 0, bottom: 0 };
-    const { w: baseW, h: baseH } = this.getBaseImageSize();
+    const { w: imgW, h: imgH } = this.getRotatedImageSize();
     const wW = wrapper.clientWidth;
     const wH = wrapper.clientHeight;
     const s = this.scale;
 
     let left: number, right: number, top: number, bottom: number;
 
-    if (baseW * s >= wW) {
+    if (imgW * s >= wW) {
       // Image covers wrapper horizontally — crop stays within wrapper edges
       left = 0;
       right = wW;
     } else {
       // Image is narrower than wrapper — constrain to actual image area
-      left = wW / 2 + this.panX - (baseW * s) / 2;
-      right = wW / 2 + this.panX + (baseW * s) / 2;
+      left = wW / 2 + this.panX - (imgW * s) / 2;
+      right = wW / 2 + this.panX + (imgW * s) / 2;
     }
 
-    if (baseH * s >= wH) {
+    if (imgH * s >= wH) {
       top = 0;
       bottom = wH;
     } else {
-      top = wH / 2 + this.panY - (baseH * s) / 2;
-      bottom = wH / 2 + this.panY + (baseH * s) / 2;
+      top = wH / 2 + this.panY - (imgH * s) / 2;
+      bottom = wH / 2 + this.panY + (imgH * s) / 2;
     }
 
     return { left, top, right, bottom };
@@ -820,7 +3246,7 @@ export class CropImagePro {
    */
   private applyImageTransformCSS(): void {
     if (!this.imgElement) return;
-    this.imgElement.style.transform = `translate(${this.panX}px, ${this.panY}px) scale(${this.scale}) rotate(${this.rotate}deg)`;
+    this.imgElement.style.transform = `translate(${this.panX}px, ${this.panY}px) scale(${this.scale}) rotate(${this.getRotation()}deg) scale(${this.flipX ? -1 : 1}, ${this.flipY ? -1 : 1})`;
   }
 
   /**
@@ -839,140 +3265,218 @@ export class CropImagePro {
    * instead of a read-modify-write getBoundingClientRect loop, so it
    * never oscillates or glitches.
    *
-   *   imgVisualLeft  = wW/2 + panX − baseW·s/2
-   *   imgVisualRight = wW/2 + panX + baseW·s/2
-   *   (analogous for Y with wH / baseH)
+   * The pan is clamped in the image's own (unrotated) frame, where the
+   * image is an axis-aligned baseW·s × baseH·s box and the wrapper is a
+   * rotated rectangle with bounding box ext.w × ext.h:
+   *
+   *   |u| ≤ (baseW·s − ext.w) / 2,  |v| ≤ (baseH·s − ext.h) / 2
+   *
+   * where (u, v) is the wrapper centre relative to the image centre.
+   * At 0° this reduces to panX ∈ [wW/2 − baseW·s/2, baseW·s/2 − wW/2].
+   * An axis where the image is smaller than the wrapper is centred.
+   * The flip sits inside the rotation and mirrors the box onto itself, so
+   * it doesn't affect the limits.
    */
   private constrainPan(): void {
-    const wrapper = document.getElementById("crop-image-wrapper");
+    const wrapper = this.wrapperElement;
     if (!wrapper) return;
     const { w: baseW, h: baseH } = this.getBaseImageSize();
     if (baseW === 0 || baseH === 0) return;
 
-    const wW = wrapper.clientWidth;
-    const wH = wrapper.clientHeight;
     const s = this.scale;
+    const rad = (this.getRotation() * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const ext = getRotatedSize(
+      wrapper.clientWidth,
+      wrapper.clientHeight,
+      this.getRotation(),
+    );
 
-    if (baseW * s > wW) {
-      const panXMin = wW / 2 - (baseW * s) / 2;
-      const panXMax = (baseW * s) / 2 - wW / 2;
-      this.panX = Math.max(panXMin, Math.min(this.panX, panXMax));
-    } else {
-      this.panX = 0;
-    }
+    // Wrapper centre relative to the image centre, in the image frame
+    let u = -(this.panX * cos + this.panY * sin);
+    let v = -(this.panY * cos - this.panX * sin);
 
-    if (baseH * s > wH) {
-      const panYMin = wH / 2 - (baseH * s) / 2;
-      const panYMax = (baseH * s) / 2 - wH / 2;
-      this.panY = Math.max(panYMin, Math.min(this.panY, panYMax));
-    } else {
-      this.panY = 0;
-    }
+    const limitU = Math.max(0, (baseW * s - ext.w) / 2);
+    const limitV = Math.max(0, (baseH * s - ext.h) / 2);
+    u = Math.max(-limitU, Math.min(u, limitU));
+    v = Math.max(-limitV, Math.min(v, limitV));
+
+    this.panX = -(u * cos - v * sin);
+    this.panY = -(u * sin + v * cos);
 
     this.applyImageTransformCSS();
   }
 
   /**
-   * Handle save - crop and compress image
+   * Map the on-screen crop to natural pixels of the rotated image.
+   *
+   * The image centre sits at the wrapper centre offset by the pan, and one
+   * on-screen pixel equals (naturalWidth / baseW) / scale natural pixels.
+   * The result is relative to the rotated image's bounding box, which is
+   * exactly the frame drawCrop() renders from.
    */
-  private async handleSave(): Promise<CropResult> {
-    return new Promise((resolve, reject) => {
-      if (!this.canvas || !this.imgElement) {
-        reject(new Error("Canvas or image not initialized"));
-        return;
-      }
-
-      const image = this.imgElement;
-      const canvas = this.canvas;
-
-      // Get image position offset for correct crop coordinates
-      const wrapper = document.getElementById("crop-image-wrapper");
-      if (!wrapper) {
-        reject(new Error("Wrapper not found"));
-        return;
-      }
-
-      const imgRect = image.getBoundingClientRect();
-      const wrapperRect = wrapper.getBoundingClientRect();
-      const imgOffsetX = imgRect.left - wrapperRect.left;
-      const imgOffsetY = imgRect.top - wrapperRect.top;
-
-      // Adjust crop coordinates to be relative to rendered image
-      const cropX = this.crop.x - imgOffsetX;
-      const cropY = this.crop.y - imgOffsetY;
-
-      // Use rendered (transformed) size so zoom is accounted for
-      const scaleX = image.naturalWidth / imgRect.width;
-      const scaleY = image.naturalHeight / imgRect.height;
-
-      const originalCropWidth = this.crop.width * scaleX;
-      const originalCropHeight = this.crop.height * scaleY;
-
-      const MAX_SIZE = this.options.maxOutputSize;
-
-      let outWidth = originalCropWidth;
-      let outHeight = originalCropHeight;
+  private getNaturalCropRect(): CropRect {
+    return this.convertRect(this.crop, "px", "natural");
+  }
 
-      if (outWidth > MAX_SIZE || outHeight > MAX_SIZE) {
-        const scaleFactor = Math.min(MAX_SIZE / outWidth, MAX_SIZE / outHeight);
-        outWidth = outWidth * scaleFactor;
-        outHeight = outHeight * scaleFactor;
-      }
+  /**
+   * Natural image pixels per on-screen pixel at the current zoom
+   */
+  private getNaturalPerPixel(): number {
+    const { w: baseW } = this.getBaseImageSize();
+    if (!this.imgElement || baseW === 0) return 1;
+    return this.imgElement.naturalWidth / baseW / this.scale;
+  }
 
-      canvas.width = outWidth;
-      canvas.height = outHeight;
+  /**
+   * Convert a rect between on-screen pixels, natural pixels of the rotated
+   * image and percent of the rotated image, for the current transform
+   */
+  private convertRect(
+    rect: CropRect,
+    from: CropUnit,
+    to: CropUnit = "natural",
+  ): CropRect {
+    const wrapper = this.wrapperElement;
+    const { w: baseW } = this.getBaseImageSize();
+    if (!wrapper || !this.imgElement || baseW === 0) {
+      return { x: 0, y: 0, width: 0, height: 0 };
+    }
+    if (from === to) return { ...rect };
+
+    const { naturalWidth, naturalHeight } = this.imgElement;
+    const toNatural = this.getNaturalPerPixel();
+    const centerX = wrapper.clientWidth / 2 + this.panX;
+    const centerY = wrapper.clientHeight / 2 + this.panY;
+    const box = getRotatedSize(naturalWidth, naturalHeight, this.getRotation());
+
+    let natural = rect;
+    if (from === "px") {
+      natural = {
+        x: box.w / 2 + (rect.x - centerX) * toNatural,
+        y: box.h / 2 + (rect.y - centerY) * toNatural,
+        width: rect.width * toNatural,
+        height: rect.height * toNatural,
+      };
+    } else if (from === "%") {
+      natural = {
+        x: (rect.x / 100) * box.w,
+        y: (rect.y / 100) * box.h,
+        width: (rect.width / 100) * box.w,
+        height: (rect.height / 100) * box.h,
+      };
+    }
 
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+    if (to === "px") {
+      return {
+        x: centerX + (natural.x - box.w / 2) / toNatural,
+        y: centerY + (natural.y - box.h / 2) / toNatural,
+        width: natural.width / toNatural,
+        height: natural.height / toNatural,
+      };
+    }
+    if (to === "%") {
+      return {
+        x: (natural.x / box.w) * 100,
+        y: (natural.y / box.h) * 100,
+        width: (natural.width / box.w) * 100,
+        height: (natural.height / box.h) * 100,
+      };
+    }
+    return { ...natural };
+  }
 
-      ctx.imageSmoothingQuality = "high";
+  /**
+   * Handle save - crop and compress image
+   */
+  private async handleSave(): Promise<CropResult> {
+    if (!this.canvas || !this.imgElement) {
+      throw new CanvasUnavailableError("Canvas or image not initialized");
+    }
 
-      ctx.drawImage(
-        image,
-        cropX * scaleX,
-        cropY * scaleY,
-        originalCropWidth,
-        originalCropHeight,
-        0,
-        0,
-        outWidth,
-        outHeight,
-      );
+    const crop: CropRecipe = {
+      rect: this.getNaturalCropRect(),
+      rotate: this.rotate,
+      straighten: this.straighten,
+      flip: { horizontal: this.flipX, vertical: this.flipY },
+      scale: this.scale,
+      aspectRatio: this.isFixedAspect ? this.options.aspectRatio : null,
+      imageWidth: this.imgElement.naturalWidth,
+      imageHeight: this.imgElement.naturalHeight,
+    };
 
-      canvas.toBlob(
-        (blob) => {
-          if (!blob) {
-            reject(new Error("Failed to create blob"));
-            return;
-          }
-
-          const previewUrl = URL.createObjectURL(blob);
-          const croppedFile = new File([blob], `${this.fileName}.jpg`, {
-            type: "image/jpeg",
-          });
-
-          resolve({
-            previewUrl,
-            file: croppedFile,
-            blob,
-          });
-        },
-        "image/jpeg",
-        this.options.compressionQuality,
-      );
-    });
+    const result = await renderCrop(
+      this.imgElement,
+      this.canvas,
+      {
+        rect: this.getNaturalCropRect(),
+        rotate: this.getRotation(),
+        flipX: this.flipX,
+        flipY: this.flipY,
+      },
+      {
+        maxOutputSize: this.options.maxOutputSize,
+        compressionQuality: this.options.compressionQuality,
+        outputType: resolveOutputType(
+          this.options.outputType,
+          this.file.type,
+          this.isCircularCrop() && !this.options.outputBackground,
+        ),
+        circularCrop: this.isCircularCrop(),
+        outputBackground: this.options.outputBackground,
+        maxFileSizeBytes: this.options.maxFileSizeBytes,
+        outputSizes: this.options.outputSizes,
+        fileName: this.fileName,
+        exif:
+          this.options.metadata === "preserve-safe"
+            ? await readSafeExif(this.file)
+            : null,
+      },
+    );
+    return { ...result, crop };
   }
 
   /**
    * Close modal and cleanup
    */
   private close(): void {
+    this.listeners?.abort();
+    this.listeners = null;
+    this.pendingOpen = null;
+    this.lastCrop = null;
+
     if (this.container && this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
+    this.container = null;
+    this.shadowHost?.remove();
+    this.shadowHost = null;
+    this.contentElement = null;
+    this.wrapperElement = null;
+    this.overlayElement = null;
+    this.imgElement = null;
+    this.canvas = null;
+
+    // Reset gesture state so a reopened editor starts clean
+    this.activePointers.clear();
+    this.pinchStart = null;
+    this.isDragging = false;
+    this.isResizing = false;
+    this.resizeHandle = "";
+
+    // The shared stylesheet goes with the last open editor
+    if (
+      !document.querySelector(".crop-image-pro-overlay, .crop-image-pro-inline")
+    ) {
+      document.getElementById("crop-image-pro-styles")?.remove();
+    }
+
+    // Return focus to whatever opened the editor
+    if (this.returnFocusTo?.isConnected) {
+      this.returnFocusTo.focus();
+    }
+    this.returnFocusTo = null;
   }
 
   /**
@@ -991,26 +3495,68 @@ export class CropImagePro {
       rotate:
         '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 12a9 9 0 1 1-9-9c2.52 0 4.93 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/></svg>',
       lock: '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect width="18" height="11" x="3" y="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>',
+      swap: '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m16 3 4 4-4 4"/><path d="M20 7H4"/><path d="m8 21-4-4 4-4"/><path d="M4 17h16"/></svg>',
       unlock:
         '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect width="18" height="11" x="3" y="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 9.9-1"/></svg>',
+      "flip-h":
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m3 7 5 5-5 5V7"/><path d="m21 7-5 5 5 5V7"/><path d="M12 20v2"/><path d="M12 14v2"/><path d="M12 8v2"/><path d="M12 2v2"/></svg>',
+      "flip-v":
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m17 3-5 5-5-5h10"/><path d="m17 21-5-5-5 5h10"/><path d="M4 12H2"/><path d="M10 12H8"/><path d="M16 12h-2"/><path d="M22 12h-2"/></svg>',
       loader:
         '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="crop-image-pro-spinner"><path d="M21 12a9 9 0 1 1-6.219-8.56"/></svg>',
     };
     return icons[icon] || "";
   }
 
+  /**
+   * Wrap the editor in a shadow root with its own copy of the styles, so
+   * page CSS and editor CSS can't leak into each other
+   */
+  private createShadowHost(editor: HTMLElement): HTMLElement {
+    const shadowHost = document.createElement("div");
+    shadowHost.className = "crop-image-pro-host";
+    const root = shadowHost.attachShadow({ mode: "open" });
+
+    const css = this.getStyles(":host");
+    if (supportsAdoptedStyleSheets()) {
+      // Constructed sheets aren't inline styles, so CSP needs no nonce
+      const sheet = new CSSStyleSheet();
+      sheet.replaceSync(css);
+      root.adoptedStyleSheets = [sheet];
+    } else {
+      root.appendChild(this.createStyleElement(css));
+    }
+
+    root.appendChild(editor);
+    return shadowHost;
+  }
+
   /**
    * Inject CSS styles - all styles are embedded for easy integration
    */
   private injectStyles(): void {
     if (document.getElementById("crop-image-pro-styles")) return;
 
-    const style = document.createElement("style");
+    const style = this.createStyleElement(this.getStyles(":root"));
     style.id = "crop-image-pro-styles";
+    document.head.appendChild(style);
+  }
+
+  private createStyleElement(css: string): HTMLStyleElement {
+    const style = document.createElement("style");
+    if (this.options.nonce) style.nonce = this.options.nonce;
+    style.textContent = css;
+    return style;
+  }
+
+  /**
+   * The editor stylesheet, with the theme defaults declared on `scope`
+   */
+  private getStyles(scope: ":root" | ":host"): string {
     const { primaryColor, backgroundColor, overlayColor } = this.options.theme;
-    style.textContent = `
+    return `
       /* CropImagePro Styles */
-      :root {
+      ${scope} {
         --crop-image-pro-primary: ${primaryColor};
         --crop-image-pro-background: ${backgroundColor};
         --crop-image-pro-overlay: ${overlayColor};
@@ -1047,6 +3593,13 @@ export class CropImagePro {
         max-height: 90vh;
       }
       
+      .crop-image-pro-inline .crop-image-pro-modal {
+        max-width: none;
+        max-height: none;
+        box-shadow: none;
+        border: 1px solid #e5e7eb;
+      }
+      
       .crop-image-pro-header {
         display: flex;
         align-items: center;
@@ -1101,6 +3654,7 @@ export class CropImagePro {
         justify-content: center;
         user-select: none;
         overflow: hidden;
+        touch-action: none;
       }
       
       .crop-image-pro-image {
@@ -1118,6 +3672,15 @@ export class CropImagePro {
         pointer-events: all;
       }
       
+      .crop-image-pro-overlay:focus {
+        outline: none;
+      }
+      
+      .crop-image-pro-crop-overlay:focus-visible {
+        outline: 2px solid #ffffff;
+        outline-offset: 2px;
+      }
+      
       .crop-handle {
         position: absolute;
         width: 12px;
@@ -1192,11 +3755,37 @@ export class CropImagePro {
         font-weight: 500;
       }
       
-      .crop-image-pro-aspect-btn.active {
+      .crop-image-pro-aspect-btn.active,
+      .crop-image-pro-flip-btn.active {
         background-color: #f3f4f6;
         color: var(--crop-image-pro-primary);
       }
       
+      .crop-image-pro-icon-btn:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+      
+      .crop-image-pro-warning {
+        padding: 0.5rem 0.75rem;
+        border-radius: 0.375rem;
+        background-color: #fef3c7;
+        color: #92400e;
+        font-size: 0.875rem;
+        line-height: 1.25rem;
+      }
+      
+      .crop-image-pro-warning[hidden] {
+        display: none;
+      }
+      
+      .crop-image-pro-aspect-presets {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 0.25rem;
+      }
+      
       .crop-image-pro-slider {
         width: 8rem;
         height: 0.25rem;
@@ -1237,6 +3826,25 @@ export class CropImagePro {
         background-color: var(--crop-image-pro-primary);
       }
       
+      .crop-image-pro-straighten {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+      }
+      
+      .crop-image-pro-straighten-slider {
+        width: 6rem;
+      }
+      
+      .crop-image-pro-angle {
+        min-width: 2.75rem;
+        font-size: 0.75rem;
+        line-height: 1rem;
+        color: #6b7280;
+        font-variant-numeric: tabular-nums;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      }
+      
       .crop-image-pro-actions {
         display: flex;
         justify-content: flex-end;
@@ -1317,6 +3925,7 @@ export class CropImagePro {
         .crop-image-pro-tool-controls { gap: 0.5rem; }
         .crop-image-pro-divider { display: none; }
         .crop-image-pro-icon-btn span { display: none; }
+        .crop-image-pro-aspect-btn span { display: inline; }
         .crop-image-pro-slider { width: 5rem; }
         .crop-image-pro-actions { padding-top: 0; }
       }
@@ -1329,7 +3938,6 @@ export class CropImagePro {
         }
       }
     `;
-    document.head.appendChild(style);
   }
 }
 
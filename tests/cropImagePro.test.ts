@@ -1,5 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { CropImagePro, CropImageProOptions } from "../src/cropImagePro";
+import {
+  CropImagePro,
+  CropImageProOptions,
+  CropOpenOptions,
+  CropRect,
+  CropResult,
+  CropAspectPreset,
+  cropImage,
+  registerDecoder,
+  CropCancelledError,
+  ImageDecodeError,
+  HeicConversionError,
+  CanvasUnavailableError,
+  EncodeError,
+  LowResolutionError,
+} from "../src/cropImagePro";
+import heic2any from "heic2any";
 
 // Mock heic2any
 vi.mock("heic2any", () => ({
@@ -312,6 +328,24 @@ describe("CropImagePro Modal", () => {
     await expect(openPromise).rejects.toThrow("User cancelled");
   });
 
+  it("should render only the latest editor when reopened while loading", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+
+    const first = cropper.open();
+    const second = cropper.open();
+    second.catch(() => {});
+    await expect(first).rejects.toBeInstanceOf(CropCancelledError);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(document.querySelectorAll(".crop-image-pro-overlay").length).toBe(1);
+    expect(
+      document.querySelectorAll(".crop-image-pro-image-wrapper").length
+    ).toBe(1);
+
+    cropper.destroy();
+    await expect(second).rejects.toThrow();
+  });
+
   it("should close modal when close button clicked", async () => {
     const cropper = new CropImagePro(mockFile, "test");
 
@@ -526,16 +560,2572 @@ describe("CropImagePro Crop Area", () => {
   });
 });
 
-describe("CropImagePro Exports", () => {
-  it("should export CropImagePro class", async () => {
-    const { CropImagePro } = await import("../src/cropImagePro");
-    expect(CropImagePro).toBeDefined();
-    expect(typeof CropImagePro).toBe("function");
+function createMockImage(width: number, height: number): HTMLImageElement {
+  const img = document.createElement("img");
+  Object.defineProperty(img, "naturalWidth", { value: width });
+  Object.defineProperty(img, "naturalHeight", { value: height });
+  Object.defineProperty(img, "complete", { value: true });
+  return img;
+}
+
+function mockCanvas(
+  options: {
+    supportedTypes?: string[];
+    blobSize?: (
+      canvas: HTMLCanvasElement,
+      type: string,
+      quality: number
+    ) => number;
+  } = {}
+) {
+  const { supportedTypes, blobSize } = options;
+  const ctx = {
+    save: vi.fn(),
+    beginPath: vi.fn(),
+    ellipse: vi.fn(),
+    clip: vi.fn(),
+    fillRect: vi.fn(),
+    fillStyle: "",
+    restore: vi.fn(),
+    scale: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    drawImage: vi.fn(),
+    setTransform: vi.fn(),
+    imageSmoothingQuality: "low",
+  };
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(
+    ctx as any
+  );
+  const toBlob = vi
+    .spyOn(HTMLCanvasElement.prototype, "toBlob")
+    .mockImplementation(function (
+      this: HTMLCanvasElement,
+      callback,
+      type = "image/png",
+      quality = 0.92
+    ) {
+      // Like browsers, fall back to PNG for types that can't be encoded
+      const encoded =
+        !supportedTypes || supportedTypes.includes(type) ? type : "image/png";
+      const size = blobSize ? blobSize(this, encoded, quality) : 3;
+      callback(new Blob([new Uint8Array(size)], { type: encoded }));
+    });
+  URL.createObjectURL = vi.fn(() => "blob:mock-preview");
+  return { ctx, toBlob };
+}
+
+function mockLayout(width: number, height: number) {
+  const isImage = (el: Element) => el.tagName === "IMG";
+  const isWrapper = (el: Element) =>
+    el.classList.contains("crop-image-pro-image-wrapper");
+  vi.spyOn(HTMLElement.prototype, "offsetWidth", "get").mockImplementation(
+    function (this: HTMLElement) {
+      return isImage(this) ? width : 0;
+    }
+  );
+  vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockImplementation(
+    function (this: HTMLElement) {
+      return isImage(this) ? height : 0;
+    }
+  );
+  vi.spyOn(Element.prototype, "clientWidth", "get").mockImplementation(
+    function (this: Element) {
+      return isWrapper(this) ? width : 0;
+    }
+  );
+  vi.spyOn(Element.prototype, "clientHeight", "get").mockImplementation(
+    function (this: Element) {
+      return isWrapper(this) ? height : 0;
+    }
+  );
+}
+
+async function openLoadedEditor(
+  cropper: CropImagePro,
+  naturalWidth: number,
+  naturalHeight: number,
+  options?: CropOpenOptions
+) {
+  const openPromise = cropper.open(options);
+  openPromise.catch(() => {});
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  const img = document.querySelector(
+    ".crop-image-pro-image"
+  ) as HTMLImageElement;
+  Object.defineProperty(img, "naturalWidth", { value: naturalWidth });
+  Object.defineProperty(img, "naturalHeight", { value: naturalHeight });
+  img.dispatchEvent(new Event("load"));
+
+  return { openPromise };
+}
+
+function clickButton(title: string) {
+  const btn = document.querySelector(`button[title="${title}"]`);
+  (btn as HTMLElement).click();
+}
+
+function clickSave() {
+  const saveBtn = document.querySelector(".crop-image-pro-btn-primary");
+  (saveBtn as HTMLElement).click();
+}
+
+describe("CropImagePro Save", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
   });
 
-  it("should export default CropImagePro", async () => {
-    const module = await import("../src/cropImagePro");
-    expect(module.default).toBeDefined();
-    expect(module.default).toBe(module.CropImagePro);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should export the crop in natural pixels", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const result = await openPromise;
+
+    // Initial 360px square crop centred in a 600x400 view of a 1200x800 image
+    expect(result.file.name).toBe("avatar.jpg");
+    expect(ctx.scale).toHaveBeenCalledWith(1, 1);
+    expect(ctx.translate).toHaveBeenCalledWith(600 - 240, 400 - 40);
+    expect(ctx.rotate).toHaveBeenCalledWith(0);
+  });
+
+  it("should apply rotation to the saved output", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Rotate 90°");
+    clickSave();
+    await openPromise;
+
+    // Rotated image is 400x600 on screen (800x1200 natural), centred
+    const [tx, ty] = ctx.translate.mock.calls[0];
+    expect(tx).toBeCloseTo(400 - 40);
+    expect(ty).toBeCloseTo(600 - 240);
+    expect(ctx.rotate).toHaveBeenCalledWith(Math.PI / 2);
+  });
+
+  it("should zoom to cover and render the straighten angle", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const straighten = document.querySelector(
+      ".crop-image-pro-straighten-slider"
+    ) as HTMLInputElement;
+    expect(straighten.min).toBe("-45");
+    expect(straighten.max).toBe("45");
+    expect(straighten.step).toBe("0.1");
+
+    straighten.value = "10";
+    straighten.dispatchEvent(new Event("input"));
+
+    // Smallest zoom at which a 10° tilted 600x400 image covers the view
+    const rad = (10 * Math.PI) / 180;
+    const coverScale = Math.max(
+      (600 * Math.cos(rad) + 400 * Math.sin(rad)) / 600,
+      (600 * Math.sin(rad) + 400 * Math.cos(rad)) / 400
+    );
+    const zoom = document.querySelector(
+      ".crop-image-pro-zoom-slider"
+    ) as HTMLInputElement;
+    expect(parseFloat(zoom.value)).toBeCloseTo(coverScale);
+    expect(parseFloat(zoom.min)).toBeCloseTo(coverScale);
+    expect(document.querySelector(".crop-image-pro-angle")?.textContent).toBe(
+      "10.0°"
+    );
+
+    clickSave();
+    await openPromise;
+
+    expect(ctx.rotate).toHaveBeenCalledWith(rad);
+  });
+
+  it("should flip the preview and the saved output", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "selfie");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Flip Horizontal");
+
+    const flipBtn = document.querySelector('button[title="Flip Horizontal"]');
+    const img = document.querySelector(
+      ".crop-image-pro-image"
+    ) as HTMLImageElement;
+    expect(flipBtn?.getAttribute("aria-pressed")).toBe("true");
+    expect(img.style.transform).toContain("scale(-1, 1)");
+
+    clickSave();
+    await openPromise;
+
+    expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+  });
+
+  it("should flip along the screen axes after rotating", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const onRotate = vi.fn();
+    cropper.on("rotate", onRotate);
+
+    clickButton("Rotate 90°");
+    clickButton("Flip Horizontal");
+
+    // Mirroring the turned view equals mirroring the source and turning it
+    // the other way: R(270°)·H = H·R(90°)
+    const img = document.querySelector(
+      ".crop-image-pro-image"
+    ) as HTMLImageElement;
+    expect(img.style.transform).toContain("rotate(270deg) scale(-1, 1)");
+    expect(onRotate).toHaveBeenLastCalledWith({ rotate: 270, straighten: 0 });
+
+    clickSave();
+    await openPromise;
+
+    expect(ctx.rotate).toHaveBeenCalledWith((3 * Math.PI) / 2);
+    expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+  });
+
+  it("should keep rotating clockwise on screen while flipped", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Flip Horizontal");
+    clickButton("Rotate 90°");
+    expect(cropper.getState()!.rotate).toBe(90);
+
+    const slider = document.querySelector(
+      ".crop-image-pro-straighten-slider"
+    ) as HTMLInputElement;
+    slider.value = "10";
+    slider.dispatchEvent(new Event("input"));
+    expect(cropper.getState()!.straighten).toBe(10);
+
+    // Flipping mirrors the tilt along with the image
+    clickButton("Flip Vertical");
+    expect(cropper.getState()).toMatchObject({ rotate: 270, straighten: -10 });
+    expect(slider.value).toBe("-10");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should keep a flipped, straightened image covering the view", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const wrapper = document.querySelector(
+      ".crop-image-pro-image-wrapper"
+    ) as HTMLElement;
+    const img = document.querySelector(
+      ".crop-image-pro-image"
+    ) as HTMLImageElement;
+    vi.spyOn(wrapper, "getBoundingClientRect").mockReturnValue({
+      left: 0,
+      top: 0,
+      width: 600,
+      height: 400,
+    } as DOMRect);
+
+    clickButton("Flip Horizontal");
+    const slider = document.querySelector(
+      ".crop-image-pro-straighten-slider"
+    ) as HTMLInputElement;
+    slider.value = "10";
+    slider.dispatchEvent(new Event("input"));
+
+    // Zoom in at one corner, then back out at the opposite one, pushing
+    // the pan as far as it goes
+    wrapper.dispatchEvent(
+      new WheelEvent("wheel", { deltaY: -300, clientX: 0, clientY: 0 })
+    );
+    wrapper.dispatchEvent(
+      new WheelEvent("wheel", { deltaY: 200, clientX: 600, clientY: 400 })
+    );
+
+    // Map each view corner back into the 600x400 image: x = F·R(−θ)·(c − pan)/s
+    const [, panX, panY, scale, angle, flipX, flipY] = img.style.transform
+      .match(
+        /translate\((-?[\d.]+)px, (-?[\d.]+)px\) scale\(([\d.]+)\) rotate\((-?[\d.]+)deg\) scale\((-?1), (-?1)\)/
+      )!
+      .map(Number);
+    const rad = (angle * Math.PI) / 180;
+    for (const [cx, cy] of [
+      [-300, -200],
+      [300, -200],
+      [300, 200],
+      [-300, 200],
+    ]) {
+      const dx = (cx - panX) / scale;
+      const dy = (cy - panY) / scale;
+      const x = flipX * (dx * Math.cos(rad) + dy * Math.sin(rad));
+      const y = flipY * (dy * Math.cos(rad) - dx * Math.sin(rad));
+      expect(Math.abs(x)).toBeLessThanOrEqual(300 + 1e-6);
+      expect(Math.abs(y)).toBeLessThanOrEqual(200 + 1e-6);
+    }
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should mask circular crops to a transparent PNG", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar", {
+      circularCrop: true,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const result = await openPromise;
+
+    expect(ctx.ellipse).toHaveBeenCalledWith(
+      360,
+      360,
+      360,
+      360,
+      0,
+      0,
+      Math.PI * 2
+    );
+    expect(ctx.clip).toHaveBeenCalled();
+    expect(ctx.fillRect).not.toHaveBeenCalled();
+    expect(result.file.name).toBe("avatar.png");
+  });
+
+  it("should flatten circular crops onto outputBackground", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar", {
+      circularCrop: true,
+      outputBackground: "#ffffff",
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const result = await openPromise;
+
+    expect(ctx.fillStyle).toBe("#ffffff");
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 720, 720);
+    expect(ctx.clip).toHaveBeenCalled();
+    expect(result.file.name).toBe("avatar.jpg");
+  });
+
+  it("should flatten JPEG output onto white by default", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "photo");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const result = await openPromise;
+
+    expect(result.file.type).toBe("image/jpeg");
+    expect(ctx.fillStyle).toBe("#ffffff");
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 720, 720);
+  });
+
+  it("should honour the initial flip option", async () => {
+    const { ctx } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "selfie", {
+      flip: { vertical: true },
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const flipBtn = document.querySelector('button[title="Flip Vertical"]');
+    expect(flipBtn?.classList.contains("active")).toBe(true);
+
+    clickSave();
+    await openPromise;
+
+    expect(ctx.scale).toHaveBeenCalledWith(1, -1);
+  });
+
+  it("should return the crop recipe with the result", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Zoom In");
+    clickButton("Flip Horizontal");
+    clickSave();
+    const { crop } = await openPromise;
+
+    expect(crop).toMatchObject({
+      rotate: 0,
+      straighten: 0,
+      flip: { horizontal: true, vertical: false },
+      aspectRatio: 1,
+      imageWidth: 1200,
+      imageHeight: 800,
+    });
+    expect(crop!.scale).toBeCloseTo(1.1);
+    expect(crop!.rect.width).toBeCloseTo(crop!.rect.height);
+  });
+
+  it("should restore the framing from initialCrop", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      initialCrop: {
+        rect: { x: 100, y: 200, width: 400, height: 400 },
+        rotate: 90,
+        straighten: 0,
+        flip: { horizontal: false, vertical: true },
+        scale: 2,
+        aspectRatio: 1,
+        imageWidth: 1200,
+        imageHeight: 800,
+      },
+    });
+    const events: string[] = [];
+    for (const name of ["ready", "cropchange", "zoom", "rotate"] as const) {
+      cropper.on(name, () => events.push(name));
+    }
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    // Restoring is part of loading, so ready is the first event
+    expect(events).toEqual(["ready"]);
+    expect(cropper.getState()).toMatchObject({
+      rotate: 90,
+      scale: 2,
+      flip: { horizontal: false, vertical: true },
+      aspectRatio: 1,
+    });
+    const crop = cropper.getCrop()!;
+    expect(crop.x).toBeCloseTo(100);
+    expect(crop.y).toBeCloseTo(200);
+    expect(crop.width).toBeCloseTo(400);
+    expect(
+      document
+        .querySelector('button[title="Flip Vertical"]')!
+        .getAttribute("aria-pressed")
+    ).toBe("true");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should show the restored straighten angle", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      initialCrop: {
+        rect: { x: 100, y: 200, width: 400, height: 400 },
+        straighten: 2,
+      },
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const slider = document.querySelector(
+      ".crop-image-pro-straighten-slider"
+    ) as HTMLInputElement;
+    expect(slider.value).toBe("2");
+    expect(document.querySelector(".crop-image-pro-angle")!.textContent).toBe(
+      "2.0°"
+    );
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should ignore initialCrop made for a different image", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      initialCrop: {
+        rect: { x: 0, y: 0, width: 100, height: 100 },
+        rotate: 90,
+        straighten: 5,
+        flip: { horizontal: true },
+        aspectRatio: null,
+        imageWidth: 4000,
+        imageHeight: 3000,
+      },
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    expect(cropper.getCrop()!.x).toBeCloseTo(240);
+    expect(cropper.getState()).toMatchObject({
+      rotate: 0,
+      straighten: 0,
+      flip: { horizontal: false, vertical: false },
+      aspectRatio: 1,
+    });
+    expect(
+      document
+        .querySelector('button[title="Flip Horizontal"]')!
+        .getAttribute("aria-pressed")
+    ).toBe("false");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+});
+
+function pointer(
+  type: string,
+  target: EventTarget,
+  pointerId: number,
+  clientX: number,
+  clientY: number
+) {
+  target.dispatchEvent(
+    new PointerEvent(type, { bubbles: true, pointerId, clientX, clientY })
+  );
+}
+
+describe("CropImagePro Pointer Interaction", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should move the crop with pointer events", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    expect(overlay.style.left).toBe("120px");
+
+    pointer("pointerdown", overlay, 1, 300, 200);
+    pointer("pointermove", document, 1, 250, 200);
+    pointer("pointerup", document, 1, 250, 200);
+
+    expect(overlay.style.left).toBe("70px");
+
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should resize the crop from a handle", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { aspectRatio: 1 });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const handle = overlay.querySelector(".crop-handle-w") as HTMLElement;
+
+    pointer("pointerdown", handle, 1, 120, 200);
+    pointer("pointermove", document, 1, 160, 200);
+    pointer("pointerup", document, 1, 160, 200);
+
+    expect(overlay.style.width).toBe("320px");
+    expect(overlay.style.left).toBe("160px");
+
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should pinch with two fingers to zoom", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const wrapper = document.querySelector(
+      ".crop-image-pro-image-wrapper"
+    ) as HTMLElement;
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const zoom = document.querySelector(
+      ".crop-image-pro-zoom-slider"
+    ) as HTMLInputElement;
+    expect(zoom.value).toBe("1");
+
+    pointer("pointerdown", overlay, 1, 250, 200);
+    pointer("pointerdown", wrapper, 2, 350, 200);
+    pointer("pointermove", document, 1, 200, 200);
+    pointer("pointermove", document, 2, 400, 200);
+
+    // Fingers moved from 100px to 200px apart
+    expect(parseFloat(zoom.value)).toBeCloseTo(2);
+    // The crop did not move with the first finger
+    expect(overlay.style.left).toBe("120px");
+
+    pointer("pointerup", document, 1, 200, 200);
+    pointer("pointerup", document, 2, 400, 200);
+
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should zoom around the cursor with the wheel", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const wrapper = document.querySelector(
+      ".crop-image-pro-image-wrapper"
+    ) as HTMLElement;
+    const img = document.querySelector(
+      ".crop-image-pro-image"
+    ) as HTMLImageElement;
+    const zoom = document.querySelector(
+      ".crop-image-pro-zoom-slider"
+    ) as HTMLInputElement;
+    vi.spyOn(wrapper, "getBoundingClientRect").mockReturnValue({
+      left: 0,
+      top: 0,
+      width: 600,
+      height: 400,
+    } as DOMRect);
+
+    // Trackpad pinch doubling the zoom, 150px right of the centre
+    const event = new WheelEvent("wheel", {
+      deltaY: -Math.log(2) * 100,
+      ctrlKey: true,
+      clientX: 450,
+      clientY: 200,
+      cancelable: true,
+    });
+    wrapper.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(parseFloat(zoom.value)).toBeCloseTo(2);
+    const [, panX, panY] = img.style.transform
+      .match(/translate\((-?[\d.]+)px, (-?[\d.]+)px\)/)!
+      .map(Number);
+    // The image point under the cursor stays under the cursor
+    expect(panX).toBeCloseTo(-150);
+    expect(panY).toBeCloseTo(0);
+
+    // Zooming out past the fit scale is clamped
+    wrapper.dispatchEvent(
+      new WheelEvent("wheel", { deltaY: 5000, clientX: 450, clientY: 200 })
+    );
+    expect(parseFloat(zoom.value)).toBeCloseTo(1);
+
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+  });
+});
+
+function key(target: EventTarget, key: string, init: KeyboardEventInit = {}) {
+  target.dispatchEvent(
+    new KeyboardEvent("keydown", { key, bubbles: true, ...init })
+  );
+}
+
+describe("CropImagePro Keyboard", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should move and resize the crop with arrow keys", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { aspectRatio: 1 });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+
+    key(overlay, "ArrowRight");
+    expect(overlay.style.left).toBe("130px");
+
+    key(overlay, "ArrowLeft", { shiftKey: true });
+    expect(overlay.style.width).toBe("350px");
+    expect(overlay.style.height).toBe("350px");
+
+    key(overlay, "Escape");
+    await expect(openPromise).rejects.toThrow("User cancelled");
+  });
+
+  it("should zoom with +/- and rotate with R", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const img = document.querySelector(
+      ".crop-image-pro-image"
+    ) as HTMLImageElement;
+    const zoom = document.querySelector(
+      ".crop-image-pro-zoom-slider"
+    ) as HTMLInputElement;
+
+    key(overlay, "+");
+    expect(parseFloat(zoom.value)).toBeCloseTo(1.1);
+    key(overlay, "-");
+    expect(parseFloat(zoom.value)).toBeCloseTo(1);
+
+    key(overlay, "r");
+    expect(img.style.transform).toContain("rotate(90deg)");
+
+    key(overlay, "Escape");
+    await expect(openPromise).rejects.toThrow("User cancelled");
+  });
+
+  it("should save with Enter", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+
+    key(overlay, "Enter");
+
+    await expect(openPromise).resolves.toHaveProperty("file");
+  });
+
+  it("should trap focus and restore it on close", async () => {
+    const opener = document.createElement("button");
+    document.body.appendChild(opener);
+    opener.focus();
+
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const dialog = document.querySelector('[role="dialog"]') as HTMLElement;
+    expect(dialog.contains(document.activeElement)).toBe(true);
+
+    const closeBtn = document.querySelector(
+      ".crop-image-pro-close-btn"
+    ) as HTMLElement;
+    const saveBtn = document.querySelector(
+      ".crop-image-pro-btn-primary"
+    ) as HTMLElement;
+
+    saveBtn.focus();
+    key(saveBtn, "Tab");
+    expect(document.activeElement).toBe(closeBtn);
+
+    key(closeBtn, "Tab", { shiftKey: true });
+    expect(document.activeElement).toBe(saveBtn);
+
+    key(saveBtn, "Escape");
+    await expect(openPromise).rejects.toThrow("User cancelled");
+    expect(document.activeElement).toBe(opener);
+  });
+});
+
+describe("CropImagePro Lifecycle", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should remove every document listener on close", async () => {
+    const addSpy = vi.spyOn(document, "addEventListener");
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const calls = addSpy.mock.calls;
+    expect(calls.length).toBeGreaterThan(0);
+    const signals = calls.map(
+      ([, , options]) => (options as AddEventListenerOptions).signal!
+    );
+    expect(signals.every((signal) => !signal.aborted)).toBe(true);
+
+    (document.querySelector(".crop-image-pro-close-btn") as any).click();
+    await expect(openPromise).rejects.toBeInstanceOf(CropCancelledError);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("should close and reject when the signal aborts", async () => {
+    const controller = new AbortController();
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800, {
+      signal: controller.signal,
+    });
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeTruthy();
+
+    controller.abort();
+
+    await expect(openPromise).rejects.toMatchObject({
+      code: "CROP_CANCELLED",
+      reason: "aborted",
+      message: "Crop aborted",
+    });
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+  });
+
+  it("should reject without opening for an aborted signal", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+
+    await expect(cropper.open({ signal: AbortSignal.abort() })).rejects.toThrow(
+      "Crop aborted"
+    );
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+  });
+
+  it("should tear down the editor and styles on destroy", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    expect(document.getElementById("crop-image-pro-styles")).toBeTruthy();
+
+    cropper.destroy();
+
+    await expect(openPromise).rejects.toThrow("Cropper destroyed");
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+    expect(document.getElementById("crop-image-pro-styles")).toBeNull();
+    // Safe to call again
+    expect(() => cropper.destroy()).not.toThrow();
+  });
+});
+
+describe("CropImagePro Events", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should report ready and crop changes in natural pixels", async () => {
+    const ready = vi.fn();
+    const cropchange = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test")
+      .on("ready", ready)
+      .on("cropchange", cropchange);
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    // 600px wide on screen, 1200px natural: 2 natural pixels per pixel
+    expect(ready).toHaveBeenCalledWith({
+      width: 1200,
+      height: 800,
+      crop: { x: 240, y: 40, width: 720, height: 720 },
+    });
+    expect(cropchange).not.toHaveBeenCalled();
+
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    key(overlay, "ArrowRight");
+    expect(cropchange).toHaveBeenLastCalledWith({
+      x: 260,
+      y: 40,
+      width: 720,
+      height: 720,
+    });
+
+    key(overlay, "Escape");
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should report zoom, rotate and aspect lock changes", async () => {
+    const zoom = vi.fn();
+    const rotate = vi.fn();
+    const aspectlockchange = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test")
+      .on("zoom", zoom)
+      .on("rotate", rotate)
+      .on("aspectlockchange", aspectlockchange);
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Zoom In");
+    expect(zoom).toHaveBeenCalledTimes(1);
+    expect(zoom.mock.calls[0][0].scale).toBeCloseTo(1.1);
+
+    clickButton("Zoom Out");
+    clickButton("Zoom Out");
+    // Already at the minimum, so the second click doesn't zoom
+    expect(zoom).toHaveBeenCalledTimes(2);
+
+    clickButton("Rotate 90°");
+    expect(rotate).toHaveBeenCalledWith({ rotate: 90, straighten: 0 });
+
+    clickButton("Free Aspect Ratio");
+    expect(aspectlockchange).toHaveBeenCalledWith({
+      locked: false,
+      aspectRatio: null,
+    });
+
+    // Changing the ratio of a locked crop is reported too
+    cropper.setAspectRatio(1);
+    aspectlockchange.mockClear();
+    cropper.setAspectRatio(16 / 9);
+    expect(aspectlockchange).toHaveBeenCalledWith({
+      locked: true,
+      aspectRatio: 16 / 9,
+    });
+    cropper.setAspectRatio(16 / 9);
+    expect(aspectlockchange).toHaveBeenCalledTimes(1);
+
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should report save and cancel", async () => {
+    mockCanvas();
+    const save = vi.fn();
+    const cancel = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test")
+      .on("save", save)
+      .on("cancel", cancel);
+
+    const first = await openLoadedEditor(cropper, 1200, 800);
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(first.openPromise).rejects.toThrow();
+    expect(cancel).toHaveBeenCalledWith({ reason: "user" });
+
+    const second = await openLoadedEditor(cropper, 1200, 800);
+    clickSave();
+    const result = await second.openPromise;
+    expect(save).toHaveBeenCalledWith(result);
+  });
+
+  it("should stop calling handlers removed with off()", async () => {
+    const cancel = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test").on("cancel", cancel);
+    cropper.off("cancel", cancel);
+
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    (document.querySelector(".crop-image-pro-btn-secondary") as any).click();
+    await expect(openPromise).rejects.toThrow();
+
+    expect(cancel).not.toHaveBeenCalled();
+  });
+});
+
+describe("CropImagePro Programmatic API", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  function expectRect(actual: CropRect | null, expected: CropRect) {
+    expect(actual).not.toBeNull();
+    expect(actual!.x).toBeCloseTo(expected.x);
+    expect(actual!.y).toBeCloseTo(expected.y);
+    expect(actual!.width).toBeCloseTo(expected.width);
+    expect(actual!.height).toBeCloseTo(expected.height);
+  }
+
+  it("should read the crop in every unit", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    expect(cropper.getCrop()).toBeNull();
+    expect(cropper.getState()).toBeNull();
+
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    expectRect(cropper.getCrop(), { x: 240, y: 40, width: 720, height: 720 });
+    expectRect(cropper.getCrop({ unit: "%" }), {
+      x: 20,
+      y: 5,
+      width: 60,
+      height: 90,
+    });
+    expectRect(cropper.getCrop({ unit: "px" }), {
+      x: 120,
+      y: 20,
+      width: 360,
+      height: 360,
+    });
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should set the crop, zooming out to show it", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+
+    cropper.setZoom(2);
+    expect(cropper.getState()!.scale).toBe(2);
+
+    // "Use full image"
+    cropper.setAspectRatio(null);
+    cropper.setCrop({ x: 0, y: 0, width: 100, height: 100 }, { unit: "%" });
+
+    expect(cropper.getState()!.scale).toBeCloseTo(1);
+    expectRect(cropper.getCrop(), { x: 0, y: 0, width: 1200, height: 800 });
+    expect(overlay.style.width).toBe("600px");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should keep the locked aspect ratio when setting the crop", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { aspectRatio: 1 });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    cropper.setCrop({ x: 100, y: 100, width: 400, height: 200 });
+
+    expectRect(cropper.getCrop(), { x: 200, y: 100, width: 200, height: 200 });
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should set rotation, zoom and aspect ratio", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    cropper.setRotation(95);
+    expect(cropper.getState()).toMatchObject({ rotate: 90 });
+    expect(cropper.getState()!.straighten).toBeCloseTo(5);
+    const straighten = document.querySelector(
+      ".crop-image-pro-straighten-slider"
+    ) as HTMLInputElement;
+    expect(parseFloat(straighten.value)).toBeCloseTo(5);
+
+    cropper.setZoom(100);
+    expect(cropper.getState()!.scale).toBe(3);
+
+    cropper.setAspectRatio(null);
+    expect(cropper.getState()!.aspectRatio).toBeNull();
+    cropper.setAspectRatio(16 / 9);
+    expect(cropper.getState()!.aspectRatio).toBeCloseTo(16 / 9);
+    expect(
+      document
+        .querySelector('button[title="Free Aspect Ratio"]')!
+        .getAttribute("aria-pressed")
+    ).toBe("false");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+});
+
+describe("CropImagePro Aspect Presets", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  const presets: CropAspectPreset[] = [
+    { label: "1:1", value: 1 },
+    { label: "16:9", value: 16 / 9 },
+    "free",
+  ];
+
+  function isPressed(title: string) {
+    return (
+      document
+        .querySelector(`button[title="${title}"]`)!
+        .getAttribute("aria-pressed") === "true"
+    );
+  }
+
+  it("should default to the aspectRatio option and Free", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { aspectRatio: 4 / 3 });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const buttons = document.querySelectorAll(".crop-image-pro-aspect-btn");
+    expect(buttons).toHaveLength(2);
+    expect(isPressed("Aspect Ratio 4:3")).toBe(true);
+    expect(isPressed("Free Aspect Ratio")).toBe(false);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should re-fit the crop around its centre when switching", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      aspectRatioPresets: presets,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const swap = document.querySelector(
+      'button[title="Swap Orientation"]'
+    ) as HTMLButtonElement;
+    // A square has no orientation
+    expect(swap.disabled).toBe(true);
+
+    // 360x360 centred on (300, 200): same area at 16:9
+    clickButton("Aspect Ratio 16:9");
+    expect(parseFloat(overlay.style.width)).toBeCloseTo(480);
+    expect(parseFloat(overlay.style.height)).toBeCloseTo(270);
+    expect(parseFloat(overlay.style.left)).toBeCloseTo(60);
+    expect(parseFloat(overlay.style.top)).toBeCloseTo(65);
+    expect(isPressed("Aspect Ratio 16:9")).toBe(true);
+    expect(isPressed("Aspect Ratio 1:1")).toBe(false);
+
+    // 9:16 would be 480px tall, so it shrinks to the 400px image height
+    swap.click();
+    expect(cropper.getState()!.aspectRatio).toBeCloseTo(9 / 16);
+    expect(parseFloat(overlay.style.width)).toBeCloseTo(225);
+    expect(parseFloat(overlay.style.height)).toBeCloseTo(400);
+    expect(parseFloat(overlay.style.left)).toBeCloseTo(187.5);
+    expect(isPressed("Aspect Ratio 16:9")).toBe(true);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should keep free crops within the aspect ratio range", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      minAspectRatio: 4 / 5,
+      maxAspectRatio: 1.25,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const handle = (name: string) =>
+      overlay.querySelector(`.crop-handle-${name}`) as HTMLElement;
+
+    // Widening a 360x360 crop stops at 1.25:1
+    pointer("pointerdown", handle("e"), 1, 480, 200);
+    pointer("pointermove", document, 1, 680, 200);
+    pointer("pointerup", document, 1, 680, 200);
+    expect(parseFloat(overlay.style.width)).toBeCloseTo(450);
+    expect(parseFloat(overlay.style.height)).toBeCloseTo(360);
+
+    // Raising the bottom edge shrinks the width back to 1.25:1
+    pointer("pointerdown", handle("s"), 1, 300, 380);
+    pointer("pointermove", document, 1, 300, 300);
+    pointer("pointerup", document, 1, 300, 300);
+    expect(parseFloat(overlay.style.height)).toBeCloseTo(280);
+    expect(parseFloat(overlay.style.width)).toBeCloseTo(350);
+    expect(overlay.style.left).toBe("120px");
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should clamp presets to the aspect ratio range", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      aspectRatioPresets: presets,
+      minAspectRatio: 4 / 5,
+      maxAspectRatio: 1.91,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickButton("Aspect Ratio 16:9");
+    clickButton("Swap Orientation");
+    expect(cropper.getState()!.aspectRatio).toBeCloseTo(4 / 5);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should start unlocked within the aspect ratio range", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      minAspectRatio: 1.5,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const { crop, aspectRatio } = cropper.getState()!;
+    expect(aspectRatio).toBeNull();
+    expect(crop.width / crop.height).toBeCloseTo(1.5);
+    expect(isPressed("Free Aspect Ratio")).toBe(true);
+
+    // Locking to the default preset uses the clamped ratio
+    clickButton("Aspect Ratio 3:2");
+    expect(cropper.getState()!.aspectRatio).toBeCloseTo(1.5);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should clamp an explicit aspect ratio to the range", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      aspectRatio: 1,
+      minAspectRatio: 1.5,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const { crop, aspectRatio } = cropper.getState()!;
+    expect(aspectRatio).toBeCloseTo(1.5);
+    expect(crop.width / crop.height).toBeCloseTo(1.5);
+    expect(isPressed("Aspect Ratio 3:2")).toBe(true);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should keep portrait orientation across presets", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      aspectRatio: 9 / 16,
+      aspectRatioPresets: presets,
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    expect(isPressed("Aspect Ratio 16:9")).toBe(true);
+
+    clickButton("Free Aspect Ratio");
+    expect(cropper.getState()!.aspectRatio).toBeNull();
+    expect(
+      (
+        document.querySelector(
+          'button[title="Swap Orientation"]'
+        ) as HTMLButtonElement
+      ).disabled
+    ).toBe(true);
+
+    cropper.setAspectRatio(9 / 16);
+    clickButton("Aspect Ratio 16:9");
+    expect(cropper.getState()!.aspectRatio).toBeCloseTo(9 / 16);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+});
+
+describe("CropImagePro Crop Size Limits", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should enforce minCropSize in natural pixels while resizing", async () => {
+    // 2 natural pixels per screen pixel, so 600px natural is 300px on screen
+    const cropper = new CropImagePro(mockFile, "test", { minCropSize: 600 });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const handle = overlay.querySelector(".crop-handle-e") as HTMLElement;
+
+    pointer("pointerdown", handle, 1, 480, 200);
+    pointer("pointermove", document, 1, 280, 200);
+    pointer("pointerup", document, 1, 280, 200);
+
+    expect(parseFloat(overlay.style.width)).toBeCloseTo(300);
+    expect(parseFloat(overlay.style.height)).toBeCloseTo(300);
+    expect(cropper.getCrop()!.width).toBeCloseTo(600);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should enforce maxCropSize in natural pixels", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      maxCropSize: { width: 400 },
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    expect(cropper.getCrop()!.width).toBeCloseTo(400);
+    expect(cropper.getCrop()!.height).toBeCloseTo(400);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should warn when the crop is below minOutputSize", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      minOutputSize: { width: 1000 },
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const warning = document.querySelector(
+      ".crop-image-pro-warning"
+    ) as HTMLElement;
+    const saveBtn = document.querySelector(
+      ".crop-image-pro-btn-primary"
+    ) as HTMLButtonElement;
+
+    expect(warning.hidden).toBe(false);
+    expect(warning.textContent).toContain("720 × 720px");
+    expect(warning.textContent).toContain("1000px wide");
+    expect(saveBtn.disabled).toBe(false);
+
+    cropper.setAspectRatio(null);
+    cropper.setCrop({ x: 0, y: 0, width: 1200, height: 800 });
+    expect(warning.hidden).toBe(true);
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should block Save below minOutputSize in block mode", async () => {
+    const { toBlob } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test", {
+      minOutputSize: 1000,
+      lowResolution: "block",
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+    const overlay = document.querySelector(
+      ".crop-image-pro-crop-overlay"
+    ) as HTMLElement;
+    const saveBtn = document.querySelector(
+      ".crop-image-pro-btn-primary"
+    ) as HTMLButtonElement;
+
+    expect(saveBtn.disabled).toBe(true);
+    expect(
+      document.querySelector(".crop-image-pro-warning")!.textContent
+    ).toContain("Select a larger area");
+
+    key(overlay, "Enter");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(toBlob).not.toHaveBeenCalled();
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+
+  it("should reject save() below minOutputSize in block mode", async () => {
+    const { toBlob } = mockCanvas();
+    const cropper = new CropImagePro(mockFile, "test", {
+      minOutputSize: 1000,
+      lowResolution: "block",
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    const error = await cropper.save().catch((e) => e);
+    expect(error).toBeInstanceOf(LowResolutionError);
+    expect(error.code).toBe("LOW_RESOLUTION");
+    expect(toBlob).not.toHaveBeenCalled();
+    expect(document.querySelector(".crop-image-pro-modal")).not.toBeNull();
+
+    cropper.destroy();
+    await expect(openPromise).rejects.toThrow();
+  });
+});
+
+describe("CropImagePro Inline Mode", () => {
+  let mockFile: File;
+  let host: HTMLElement;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+    host = document.createElement("div");
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  async function mountLoadedEditor(cropper: CropImagePro) {
+    cropper.mount(host);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const img = host.querySelector(".crop-image-pro-image") as HTMLImageElement;
+    Object.defineProperty(img, "naturalWidth", { value: 1200 });
+    Object.defineProperty(img, "naturalHeight", { value: 800 });
+    img.dispatchEvent(new Event("load"));
+  }
+
+  it("should render into the host without modal chrome", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    await mountLoadedEditor(cropper);
+
+    const container = host.querySelector(".crop-image-pro-inline");
+    expect(container).toBeTruthy();
+    expect(container?.getAttribute("role")).toBeNull();
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+    expect(host.querySelector(".crop-image-pro-close-btn")).toBeNull();
+    expect(host.querySelector(".crop-image-pro-btn-secondary")).toBeNull();
+    expect(document.getElementById("crop-image-pro-styles")).toBeTruthy();
+  });
+
+  it("should save without unmounting", async () => {
+    mockCanvas();
+    const onSave = vi.fn();
+    const cropper = new CropImagePro(mockFile, "avatar").on("save", onSave);
+    await mountLoadedEditor(cropper);
+
+    const result = await cropper.save();
+
+    expect(result.file.name).toBe("avatar.jpg");
+    expect(result.crop?.rect).toEqual({
+      x: 240,
+      y: 40,
+      width: 720,
+      height: 720,
+    });
+    expect(onSave).toHaveBeenCalledWith(result);
+    expect(host.querySelector(".crop-image-pro-inline")).toBeTruthy();
+  });
+
+  it("should emit save from the Save button", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(mockFile, "avatar");
+    await mountLoadedEditor(cropper);
+    const saved = new Promise<CropResult>((resolve) =>
+      cropper.on("save", resolve)
+    );
+
+    clickSave();
+
+    expect((await saved).file.name).toBe("avatar.jpg");
+    expect(host.querySelector(".crop-image-pro-inline")).toBeTruthy();
+  });
+
+  it("should ignore Escape", async () => {
+    const onCancel = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test").on("cancel", onCancel);
+    await mountLoadedEditor(cropper);
+
+    key(host.querySelector(".crop-image-pro-crop-overlay")!, "Escape");
+
+    expect(onCancel).not.toHaveBeenCalled();
+    expect(host.querySelector(".crop-image-pro-inline")).toBeTruthy();
+  });
+
+  it("should unmount on destroy", async () => {
+    const onCancel = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test").on("cancel", onCancel);
+    await mountLoadedEditor(cropper);
+
+    cropper.destroy();
+
+    expect(onCancel).toHaveBeenCalledWith({ reason: "destroyed" });
+    expect(host.children).toHaveLength(0);
+    expect(document.getElementById("crop-image-pro-styles")).toBeNull();
+  });
+
+  it("should emit load failures as errors", async () => {
+    const onError = vi.fn();
+    const cropper = new CropImagePro(mockFile, "test").on("error", onError);
+    cropper.mount(host);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    host
+      .querySelector(".crop-image-pro-image")!
+      .dispatchEvent(new Event("error"));
+
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(ImageDecodeError);
+    expect(host.children).toHaveLength(0);
+  });
+
+  it("should reject save() until the image is ready", async () => {
+    const cropper = new CropImagePro(mockFile, "test");
+    cropper.mount(host);
+
+    await expect(cropper.save()).rejects.toBeInstanceOf(CanvasUnavailableError);
+    cropper.destroy();
+  });
+});
+
+describe("CropImagePro Localization", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("should render a bundled locale", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { locale: "de" });
+    await openLoadedEditor(cropper, 1200, 800);
+
+    expect(document.querySelector(".crop-image-pro-title")?.textContent).toBe(
+      "Foto bearbeiten"
+    );
+    expect(
+      document.querySelector(".crop-image-pro-btn-secondary")?.textContent
+    ).toBe("Abbrechen");
+    expect(document.querySelector('button[title="Vergrößern"]')).toBeTruthy();
+    expect(
+      document.querySelector('button[title="Freies Seitenverhältnis"]')
+    ).toBeTruthy();
+    expect(
+      document.querySelector(".crop-image-pro-overlay")?.getAttribute("dir")
+    ).toBe("ltr");
+  });
+
+  it("should merge label overrides into the locale", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      locale: "de",
+      labels: { save: "Übernehmen" },
+    });
+    await openLoadedEditor(cropper, 1200, 800);
+
+    expect(
+      document.querySelector(".crop-image-pro-btn-primary")?.textContent
+    ).toBe("Übernehmen");
+    expect(document.querySelector(".crop-image-pro-title")?.textContent).toBe(
+      "Foto bearbeiten"
+    );
+  });
+
+  it("should localize the low resolution warning", async () => {
+    const cropper = new CropImagePro(mockFile, "test", {
+      locale: "de",
+      minOutputSize: 1000,
+    });
+    await openLoadedEditor(cropper, 1200, 800);
+
+    expect(document.querySelector(".crop-image-pro-warning")?.textContent).toBe(
+      "Niedrige Auflösung: Der ausgewählte Bereich ist 720 × 720 px groß, " +
+        "sollte aber mindestens 1000 px breit und 1000 px hoch sein. " +
+        "Das Foto könnte unscharf wirken."
+    );
+  });
+
+  it("should lay out Arabic right to left with a left-to-right image", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { locale: "ar" });
+    await openLoadedEditor(cropper, 1200, 800);
+
+    expect(
+      document.querySelector(".crop-image-pro-overlay")?.getAttribute("dir")
+    ).toBe("rtl");
+    expect(
+      document
+        .querySelector(".crop-image-pro-image-wrapper")
+        ?.getAttribute("dir")
+    ).toBe("ltr");
+    expect(document.querySelector(".crop-image-pro-title")?.textContent).toBe(
+      "تعديل الصورة"
+    );
+  });
+
+  it("should resize from the left edge with Shift + arrow keys in RTL", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { dir: "rtl" });
+    await openLoadedEditor(cropper, 1200, 800);
+
+    key(document.querySelector(".crop-image-pro-crop-overlay")!, "ArrowLeft", {
+      shiftKey: true,
+    });
+
+    // The right edge (120 + 360) stays put while the crop grows leftwards
+    expect(cropper.getCrop({ unit: "px" })).toEqual({
+      x: 110,
+      y: 20,
+      width: 370,
+      height: 370,
+    });
+  });
+});
+
+describe("CropImagePro Multiple Editors", () => {
+  let mockFile: File;
+  let host: HTMLElement;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+    host = document.createElement("div");
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  function loadImage(root: ParentNode, width: number, height: number) {
+    const img = root.querySelector(".crop-image-pro-image") as HTMLImageElement;
+    Object.defineProperty(img, "naturalWidth", { value: width });
+    Object.defineProperty(img, "naturalHeight", { value: height });
+    img.dispatchEvent(new Event("load"));
+  }
+
+  async function openSideBySide(
+    inlineOptions: CropImageProOptions = {},
+    modalOptions: CropImageProOptions = {}
+  ) {
+    const inline = new CropImagePro(mockFile, "inline", inlineOptions);
+    const modal = new CropImagePro(mockFile, "modal", modalOptions);
+    inline.mount(host);
+    modal.open().catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const overlay = document.querySelector(".crop-image-pro-overlay")!;
+    loadImage(host, 1200, 800);
+    loadImage(overlay, 800, 1200);
+    return { inline, modal, overlay };
+  }
+
+  it("should keep each editor's crop to its own image", async () => {
+    const { inline, modal } = await openSideBySide();
+
+    expect(inline.getCrop()).toEqual({
+      x: 240,
+      y: 40,
+      width: 720,
+      height: 720,
+    });
+    expect(inline.getState().scale).toBe(1);
+    // The portrait image covers the view at 600x900, so 360px is 480 natural
+    expect(modal.getCrop()).toEqual({
+      x: 160,
+      y: 360,
+      width: 480,
+      height: 480,
+    });
+  });
+
+  it("should move only the editor that has focus", async () => {
+    const { inline, modal, overlay } = await openSideBySide();
+    const before = modal.getCrop({ unit: "px" })!;
+
+    key(host.querySelector(".crop-image-pro-crop-overlay")!, "ArrowLeft");
+
+    expect(inline.getCrop({ unit: "px" })?.x).toBe(110);
+    expect(modal.getCrop({ unit: "px" })).toEqual(before);
+    expect(
+      (host.querySelector(".crop-image-pro-crop-overlay") as HTMLElement).style
+        .left
+    ).toBe("110px");
+    expect(
+      (overlay.querySelector(".crop-image-pro-crop-overlay") as HTMLElement)
+        .style.left
+    ).toBe(`${before.x}px`);
+  });
+
+  it("should keep its own aspect ratio", async () => {
+    const { inline, modal } = await openSideBySide({}, { aspectRatio: 16 / 9 });
+
+    const square = inline.getCrop()!;
+    const wide = modal.getCrop()!;
+    expect(square.width / square.height).toBeCloseTo(1);
+    expect(wide.width / wide.height).toBeCloseTo(16 / 9);
+  });
+
+  it("should keep the other editor and the stylesheet when one closes", async () => {
+    const { inline, modal } = await openSideBySide();
+
+    modal.destroy();
+
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+    expect(host.querySelector(".crop-image-pro-inline")).toBeTruthy();
+    expect(document.getElementById("crop-image-pro-styles")).toBeTruthy();
+    inline.setZoom(2);
+    expect(inline.getState().scale).toBe(2);
+
+    inline.destroy();
+    expect(document.getElementById("crop-image-pro-styles")).toBeNull();
+  });
+
+  it("should not use element IDs", async () => {
+    await openSideBySide();
+
+    const ids = Array.from(document.querySelectorAll("[id]")).map(
+      (el) => el.id
+    );
+    expect(ids).toEqual(["crop-image-pro-styles"]);
+  });
+});
+
+describe("CropImagePro Shadow DOM", () => {
+  let mockFile: File;
+
+  beforeEach(() => {
+    const blob = new Blob(["test"], { type: "image/jpeg" });
+    mockFile = new File([blob], "test.jpg", { type: "image/jpeg" });
+
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/jpeg;base64,test";
+            callback();
+          }, 10);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    mockLayout(600, 400);
+    // Left behind by editors that other tests never closed
+    document.getElementById("crop-image-pro-styles")?.remove();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  async function openInShadow(options: CropImageProOptions = {}) {
+    const cropper = new CropImagePro(mockFile, "test", {
+      shadowDom: true,
+      ...options,
+    });
+    cropper.open().catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const root = document.querySelector(".crop-image-pro-host")!.shadowRoot!;
+    return { cropper, root };
+  }
+
+  it("should render inside a shadow root with its own styles", async () => {
+    const { root } = await openInShadow({ nonce: "r4nd0m" });
+
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+    expect(root.querySelector(".crop-image-pro-overlay")).toBeTruthy();
+    expect(document.getElementById("crop-image-pro-styles")).toBeNull();
+    const style = root.querySelector("style")!;
+    expect(style.textContent).toContain(":host {");
+    expect(style.nonce).toBe("r4nd0m");
+  });
+
+  it("should adopt a constructed stylesheet where supported", async () => {
+    const adopted = new WeakMap<ShadowRoot, CSSStyleSheet[]>();
+    Object.defineProperty(ShadowRoot.prototype, "adoptedStyleSheets", {
+      configurable: true,
+      get() {
+        return adopted.get(this) ?? [];
+      },
+      set(sheets: CSSStyleSheet[]) {
+        adopted.set(this, sheets);
+      },
+    });
+    const replaceSync = vi.fn();
+    (CSSStyleSheet.prototype as any).replaceSync = replaceSync;
+
+    try {
+      const { root } = await openInShadow();
+
+      expect(root.adoptedStyleSheets).toHaveLength(1);
+      expect(replaceSync.mock.calls[0][0]).toContain(".crop-image-pro-modal");
+      expect(root.querySelector("style")).toBeNull();
+    } finally {
+      delete (ShadowRoot.prototype as any).adoptedStyleSheets;
+      delete (CSSStyleSheet.prototype as any).replaceSync;
+    }
+  });
+
+  it("should set the nonce on the document stylesheet", async () => {
+    const cropper = new CropImagePro(mockFile, "test", { nonce: "r4nd0m" });
+    cropper.open().catch(() => {});
+
+    expect(
+      (document.getElementById("crop-image-pro-styles") as HTMLStyleElement)
+        .nonce
+    ).toBe("r4nd0m");
+    cropper.destroy();
+  });
+
+  it("should expose part names for theming", async () => {
+    const { root } = await openInShadow();
+    const img = root.querySelector(".crop-image-pro-image") as HTMLImageElement;
+    Object.defineProperty(img, "naturalWidth", { value: 1200 });
+    Object.defineProperty(img, "naturalHeight", { value: 800 });
+    img.dispatchEvent(new Event("load"));
+
+    const part = (name: string) => root.querySelectorAll(`[part~="${name}"]`);
+    expect(part("header")).toHaveLength(1);
+    expect(part("controls")).toHaveLength(1);
+    expect(part("save-button")).toHaveLength(1);
+    expect(part("handle")).toHaveLength(8);
+    expect(part("handle-nw")).toHaveLength(1);
+    expect(part("button").length).toBe(root.querySelectorAll("button").length);
+  });
+
+  it("should trap focus inside the shadow root", async () => {
+    const { root } = await openInShadow();
+    const buttons = root.querySelectorAll<HTMLButtonElement>("button");
+    const first = buttons[0];
+    const last = buttons[buttons.length - 1];
+
+    last.focus();
+    key(last, "Tab");
+
+    expect(root.activeElement).toBe(first);
+  });
+
+  it("should remove the shadow host on close", async () => {
+    const { cropper } = await openInShadow();
+
+    cropper.destroy();
+
+    expect(document.querySelector(".crop-image-pro-host")).toBeNull();
+  });
+});
+
+// Minimal JPEG with a little-endian Exif IFD0. Numbers become SHORT
+// fields, strings ASCII fields stored after the IFD.
+function jpegWithExif(fields: [number, number | string][]): File {
+  const strings = fields.map(([, value]) =>
+    typeof value === "string" ? new TextEncoder().encode(`${value}\0`) : null
+  );
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const dataSize = strings.reduce(
+    (sum, bytes) => sum + (bytes?.length ?? 0),
+    0
+  );
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49, 42, 0, 8, 0, 0, 0]);
+  view.setUint16(8, fields.length, true);
+
+  let data = 8 + ifdSize;
+  fields.forEach(([tag, value], i) => {
+    const entry = 10 + i * 12;
+    const bytes = strings[i];
+    view.setUint16(entry, tag, true);
+    if (bytes) {
+      view.setUint16(entry + 2, 2, true);
+      view.setUint32(entry + 4, bytes.length, true);
+      view.setUint32(entry + 8, data, true);
+      tiff.set(bytes, data);
+      data += bytes.length;
+    } else {
+      view.setUint16(entry + 2, 3, true);
+      view.setUint32(entry + 4, 1, true);
+      view.setUint16(entry + 8, value as number, true);
+    }
+  });
+
+  const length = 2 + 6 + tiff.length;
+  const app1 = [0xff, 0xe1, length >> 8, length & 0xff];
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0];
+  return new File(
+    [
+      new Uint8Array([0xff, 0xd8, ...app1, ...exif]),
+      tiff,
+      new Uint8Array([0xff, 0xda]),
+    ],
+    "photo.jpg",
+    { type: "image/jpeg" }
+  );
+}
+
+function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("Image metadata", () => {
+  const ImageDescription = 0x010e;
+  const Make = 0x010f;
+  const Orientation = 0x0112;
+  const Copyright = 0x8298;
+  const GPSInfo = 0x8825;
+  let photo: File;
+
+  beforeEach(() => {
+    photo = jpegWithExif([
+      [ImageDescription, "Harbour at dawn"],
+      [Make, "Canon"],
+      [Copyright, "(c) 2026 Example News"],
+      [GPSInfo, 512],
+    ]);
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    document.body.innerHTML = "";
+  });
+
+  it("should strip all metadata by default", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(photo, "photo");
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const { blob } = await openPromise;
+
+    // Exactly what the canvas encoder produced, which carries no Exif
+    expect(Array.from(await blobBytes(blob))).toEqual([0, 0, 0]);
+  });
+
+  it("should keep only the description and copyright", async () => {
+    mockCanvas();
+    const cropper = new CropImagePro(photo, "photo", {
+      metadata: "preserve-safe",
+    });
+    const { openPromise } = await openLoadedEditor(cropper, 1200, 800);
+
+    clickSave();
+    const bytes = await blobBytes((await openPromise).blob);
+    const view = new DataView(bytes.buffer);
+    const text = new TextDecoder().decode(bytes);
+
+    expect(view.getUint16(2)).toBe(0xffe1);
+    expect(text.slice(6, 10)).toBe("Exif");
+    // IFD0 of the big-endian TIFF block: two fields and no further IFDs
+    expect(text.slice(12, 14)).toBe("MM");
+    expect(view.getUint16(20)).toBe(2);
+    expect(view.getUint16(22)).toBe(ImageDescription);
+    expect(view.getUint16(34)).toBe(Copyright);
+    expect(view.getUint32(46)).toBe(0);
+    expect(text).toContain("Harbour at dawn");
+    expect(text).toContain("(c) 2026 Example News");
+    expect(text).not.toContain("Canon");
+    // Inserted after the first two bytes (the SOI marker) of the encoded image
+    expect(bytes.length).toBe(2 + view.getUint16(4) + 2 + 1);
+  });
+
+  it("should not add metadata to non-JPEG output", async () => {
+    mockCanvas();
+    const result = await cropImage(createMockImage(1000, 800), {
+      rect: { x: 0, y: 0, width: 400, height: 400 },
+      output: { outputType: "image/png", metadata: "preserve-safe" },
+    });
+
+    expect(result.blob.size).toBe(3);
+  });
+
+  it("should draw sideways photos upright where the browser doesn't", async () => {
+    const { ctx } = mockCanvas();
+    vi.spyOn(HTMLCanvasElement.prototype, "toDataURL").mockReturnValue(
+      "data:image/jpeg;oriented"
+    );
+    // Stored 1200x800 and shown 800x1200 once rotated
+    vi.spyOn(HTMLImageElement.prototype, "src", "set").mockImplementation(
+      function (this: HTMLImageElement, value: string) {
+        const upright = value === "data:image/jpeg;oriented";
+        Object.defineProperty(this, "naturalWidth", {
+          value: upright ? 800 : 1200,
+          configurable: true,
+        });
+        Object.defineProperty(this, "naturalHeight", {
+          value: upright ? 1200 : 800,
+          configurable: true,
+        });
+        setTimeout(() => this.dispatchEvent(new Event("load")));
+      }
+    );
+
+    await cropImage(jpegWithExif([[Orientation, 6]]), {
+      rect: { x: 0, y: 0, width: 800, height: 1200 },
+    });
+
+    // Rotated 90° clockwise onto an 800x1200 canvas
+    expect(ctx.setTransform).toHaveBeenCalledWith(0, 1, -1, 0, 800, 0);
+    expect(ctx.drawImage).toHaveBeenLastCalledWith(
+      expect.anything(),
+      -400,
+      -600
+    );
+  });
+
+  it("should leave orientation to browsers that apply it", async () => {
+    const { ctx } = mockCanvas();
+    vi.stubGlobal("CSS", { supports: () => true });
+
+    const cropper = new CropImagePro(jpegWithExif([[Orientation, 6]]), "p");
+    await openLoadedEditor(cropper, 800, 1200);
+
+    expect(ctx.setTransform).not.toHaveBeenCalled();
+    expect(
+      document.querySelector<HTMLImageElement>(".crop-image-pro-image")?.src
+    ).toMatch(/^data:image\/jpeg;base64,/);
+  });
+});
+
+// ISO-BMFF ftyp box: size, "ftyp", major brand, minor version (0), then
+// the compatible brands
+function ftypFile(name: string, type: string, brands: string[]): File {
+  const [major, ...compatible] = brands;
+  const text = `ftyp${major}\0\0\0\0${compatible.join("")}`;
+  const bytes = Array.from(text, (c) => c.charCodeAt(0));
+  const box = new Uint8Array([0, 0, 0, 4 + bytes.length, ...bytes]);
+  return new File([box], name, { type });
+}
+
+describe("Image decoders", () => {
+  beforeEach(() => {
+    vi.mocked(heic2any).mockClear();
+    mockLayout(600, 400);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  async function openFile(file: File) {
+    const cropper = new CropImagePro(file, "photo");
+    const openPromise = cropper.open();
+    openPromise.catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return { cropper, openPromise };
+  }
+
+  it("should detect HEIC from its bytes without a MIME type", async () => {
+    const file = ftypFile("IMG_0001", "", ["heic", "mif1", "heic"]);
+
+    const { cropper } = await openFile(file);
+
+    expect(heic2any).toHaveBeenCalledWith(
+      expect.objectContaining({ blob: file, toType: "image/jpeg" })
+    );
+    cropper.destroy();
+  });
+
+  it("should detect HEIF from the MIME type or extension", async () => {
+    const byType = new File(["heif data"], "upload", { type: "image/heif" });
+    const byName = new File(["heif data"], "photo.HEIF", { type: "" });
+
+    (await openFile(byType)).cropper.destroy();
+    (await openFile(byName)).cropper.destroy();
+
+    expect(heic2any).toHaveBeenCalledTimes(2);
+  });
+
+  it("should leave AVIF to the browser", async () => {
+    const file = ftypFile("photo.avif", "image/avif", ["avif", "mif1", "miaf"]);
+
+    const { cropper } = await openFile(file);
+
+    expect(heic2any).not.toHaveBeenCalled();
+    expect(
+      document.querySelector<HTMLImageElement>(".crop-image-pro-image")?.src
+    ).toMatch(/^data:image\/avif;base64,/);
+    cropper.destroy();
+  });
+
+  it("should use a registered decoder", async () => {
+    const decoder = vi.fn(async () => new Blob(["png"], { type: "image/png" }));
+    const unregister = registerDecoder("jxl", decoder);
+    const file = new File([new Uint8Array([0xff, 0x0a, 0, 0])], "photo.jxl");
+
+    try {
+      const { cropper } = await openFile(file);
+
+      expect(decoder).toHaveBeenCalledWith(file);
+      expect(
+        document.querySelector<HTMLImageElement>(".crop-image-pro-image")?.src
+      ).toBe(`data:image/png;base64,${btoa("png")}`);
+      cropper.destroy();
+    } finally {
+      unregister();
+    }
+  });
+
+  it("should restore the built-in HEIC decoder when unregistered", async () => {
+    const decoder = vi.fn(async () => new Blob(["png"], { type: "image/png" }));
+    const file = new File(["heic data"], "photo.heic", { type: "image/heic" });
+
+    const unregister = registerDecoder("heif", decoder);
+    (await openFile(file)).cropper.destroy();
+    unregister();
+    (await openFile(file)).cropper.destroy();
+
+    expect(decoder).toHaveBeenCalledTimes(1);
+    expect(heic2any).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wrap decoder failures in ImageDecodeError", async () => {
+    const failure = new Error("unsupported TIFF compression");
+    const unregister = registerDecoder("tiff", async () => {
+      throw failure;
+    });
+
+    try {
+      const file = new File(
+        [new Uint8Array([0x49, 0x49, 0x2a, 0])],
+        "scan.tif"
+      );
+      const error = await cropImage(file, {
+        rect: { x: 0, y: 0, width: 10, height: 10 },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ImageDecodeError);
+      expect(error.cause).toBe(failure);
+    } finally {
+      unregister();
+    }
+  });
+});
+
+describe("cropImage (headless)", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should crop without opening the modal", async () => {
+    const { ctx } = mockCanvas();
+    const image = createMockImage(1000, 800);
+
+    const result = await cropImage(image, {
+      rect: { x: 100, y: 50, width: 400, height: 300 },
+      output: { fileName: "face" },
+    });
+
+    expect(document.querySelector(".crop-image-pro-overlay")).toBeNull();
+    expect(result.file.name).toBe("face.jpg");
+    expect(result.file.type).toBe("image/jpeg");
+    expect(result.previewUrl).toBe("blob:mock-preview");
+    expect(ctx.translate).toHaveBeenCalledWith(500 - 100, 400 - 50);
+    expect(ctx.drawImage).toHaveBeenCalledWith(image, -500, -400);
+  });
+
+  it("should scale output down to maxOutputSize", async () => {
+    const { ctx } = mockCanvas();
+    const image = createMockImage(4000, 3000);
+
+    await cropImage(image, {
+      rect: { x: 0, y: 0, width: 4000, height: 2000 },
+      output: { maxOutputSize: 1000 },
+    });
+
+    expect(ctx.scale).toHaveBeenCalledWith(0.25, 0.25);
+  });
+
+  it("should apply rotation and flip around the image centre", async () => {
+    const { ctx } = mockCanvas();
+    const image = createMockImage(600, 400);
+
+    await cropImage(image, {
+      rect: { x: 0, y: 0, width: 400, height: 600 },
+      rotate: 90,
+      flip: { horizontal: true },
+    });
+
+    // Rotated bounding box is 400x600, so the centre sits at (200, 300)
+    const [tx, ty] = ctx.translate.mock.calls[0];
+    expect(tx).toBeCloseTo(200);
+    expect(ty).toBeCloseTo(300);
+    expect(ctx.rotate).toHaveBeenCalledWith(Math.PI / 2);
+    expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+    // The flip mirrors the source, so it's applied inside the rotation
+    expect(ctx.rotate.mock.invocationCallOrder[0]).toBeLessThan(
+      ctx.scale.mock.invocationCallOrder[1]
+    );
+  });
+
+  it("should encode the requested output type", async () => {
+    mockCanvas();
+    const image = createMockImage(100, 100);
+
+    const result = await cropImage(image, {
+      rect: { x: 0, y: 0, width: 50, height: 50 },
+      output: { outputType: "image/webp", fileName: "thumb" },
+    });
+
+    expect(result.file.name).toBe("thumb.webp");
+    expect(result.file.type).toBe("image/webp");
+  });
+
+  it("should fall back when the browser can't encode a type", async () => {
+    const { toBlob } = mockCanvas({
+      supportedTypes: ["image/jpeg", "image/png"],
+    });
+    const image = createMockImage(100, 100);
+
+    const result = await cropImage(image, {
+      rect: { x: 0, y: 0, width: 50, height: 50 },
+      output: { outputType: "image/avif", fileName: "thumb" },
+    });
+
+    expect(toBlob.mock.calls.map((call) => call[1])).toEqual([
+      "image/avif",
+      "image/webp",
+      "image/png",
+    ]);
+    expect(result.file.name).toBe("thumb.png");
+  });
+
+  it("should keep transparent source formats with auto output", async () => {
+    mockCanvas();
+    const mockFileReader = {
+      readAsDataURL: vi.fn(),
+      addEventListener: vi.fn((event: string, callback: Function) => {
+        if (event === "load") {
+          setTimeout(() => {
+            (mockFileReader as any).result = "data:image/png;base64,test";
+            callback();
+          }, 0);
+        }
+      }),
+      result: null,
+    };
+    vi.spyOn(window, "FileReader").mockImplementation(
+      () => mockFileReader as any
+    );
+    const pngFile = new File(["png"], "logo.png", { type: "image/png" });
+    const loaded = createMockImage(100, 100);
+    vi.spyOn(document, "createElement").mockReturnValueOnce(loaded);
+
+    const result = await cropImage(pngFile, {
+      rect: { x: 0, y: 0, width: 50, height: 50 },
+      output: { outputType: "auto", fileName: "logo" },
+    });
+
+    expect(result.file.name).toBe("logo.png");
+  });
+
+  it("should lower quality until the file fits maxFileSizeBytes", async () => {
+    const { toBlob } = mockCanvas({
+      blobSize: (canvas, _type, quality) =>
+        Math.round(canvas.width * canvas.height * quality),
+    });
+    const image = createMockImage(1000, 1000);
+
+    const result = await cropImage(image, {
+      rect: { x: 0, y: 0, width: 1000, height: 1000 },
+      output: { maxOutputSize: 1000, maxFileSizeBytes: 500_000 },
+    });
+
+    // 1000x1000 at quality 0.7 is 700 KB, so only quality needs to drop
+    expect(result.blob.size).toBeLessThanOrEqual(500_000);
+    expect(result.blob.size).toBeGreaterThan(480_000);
+    expect(toBlob.mock.calls.length).toBeLessThanOrEqual(7);
+    expect(toBlob.mock.contexts.every((canvas) => canvas.width === 1000)).toBe(
+      true
+    );
+  });
+
+  it("should shrink lossless output to fit maxFileSizeBytes", async () => {
+    const { toBlob } = mockCanvas({
+      blobSize: (canvas) => canvas.width * canvas.height,
+    });
+    const image = createMockImage(1000, 1000);
+
+    const result = await cropImage(image, {
+      rect: { x: 0, y: 0, width: 1000, height: 1000 },
+      output: {
+        maxOutputSize: 1000,
+        outputType: "image/png",
+        maxFileSizeBytes: 250_000,
+      },
+    });
+
+    const contexts = toBlob.mock.contexts;
+    const lastCanvas = contexts[contexts.length - 1] as HTMLCanvasElement;
+    expect(result.blob.size).toBeLessThanOrEqual(250_000);
+    expect(lastCanvas.width).toBeLessThan(1000);
+  });
+
+  it("should render each output size from the source image", async () => {
+    const { ctx } = mockCanvas();
+    const image = createMockImage(2000, 2000);
+
+    const result = await cropImage(image, {
+      rect: { x: 0, y: 0, width: 1600, height: 1200 },
+      output: {
+        maxOutputSize: 1600,
+        outputSizes: [800, { name: "thumb", size: 320 }],
+        fileName: "hero",
+      },
+    });
+
+    expect(result.file.name).toBe("hero.jpg");
+    expect(result.variants).toHaveLength(2);
+    expect(result.variants?.[0]).toMatchObject({
+      name: "800",
+      width: 800,
+      height: 600,
+    });
+    expect(result.variants?.[0].file.name).toBe("hero-800.jpg");
+    expect(result.variants?.[1]).toMatchObject({
+      name: "thumb",
+      width: 320,
+      height: 240,
+    });
+    expect(result.variants?.[1].file.name).toBe("hero-thumb.jpg");
+
+    // Every size is drawn from the original, never from a previous output
+    expect(ctx.drawImage).toHaveBeenCalledTimes(3);
+    ctx.drawImage.mock.calls.forEach((call) => {
+      expect(call[0]).toBe(image);
+    });
+  });
+
+  it("should reject when the canvas context is unavailable", async () => {
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    const image = createMockImage(100, 100);
+
+    await expect(
+      cropImage(image, { rect: { x: 0, y: 0, width: 50, height: 50 } })
+    ).rejects.toThrow("Could not get canvas context");
+  });
+
+  it("should reject an image element that failed to load", async () => {
+    const image = createMockImage(0, 0);
+
+    await expect(
+      cropImage(image, { rect: { x: 0, y: 0, width: 50, height: 50 } })
+    ).rejects.toBeInstanceOf(ImageDecodeError);
+  });
+});
+
+describe("CropImagePro Exports", () => {
+  it("should export CropImagePro class", async () => {
+    const { CropImagePro } = await import("../src/cropImagePro");
+    expect(CropImagePro).toBeDefined();
+    expect(typeof CropImagePro).toBe("function");
+  });
+
+  it("should export default CropImagePro", async () => {
+    const module = await import("../src/cropImagePro");
+    expect(module.default).toBeDefined();
+    expect(module.default).toBe(module.CropImagePro);
+  });
+});
+
+describe("Crop errors", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reject with HeicConversionError when conversion fails", async () => {
+    const failure = new Error("bad heic");
+    vi.mocked(heic2any).mockRejectedValueOnce(failure);
+    const file = new File(["test"], "photo.heic", { type: "image/heic" });
+
+    const error = await cropImage(file, {
+      rect: { x: 0, y: 0, width: 10, height: 10 },
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HeicConversionError);
+    expect(error.code).toBe("HEIC_CONVERSION_FAILED");
+    expect(error.cause).toBe(failure);
+  });
+
+  it("should reject with ImageDecodeError when the image fails to load", async () => {
+    const image = document.createElement("img");
+    const promise = cropImage(image, {
+      rect: { x: 0, y: 0, width: 10, height: 10 },
+    });
+    image.dispatchEvent(new Event("error"));
+
+    await expect(promise).rejects.toBeInstanceOf(ImageDecodeError);
+  });
+
+  it("should reject with CanvasUnavailableError without a 2D context", async () => {
+    mockCanvas();
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+
+    await expect(
+      cropImage(createMockImage(100, 100), {
+        rect: { x: 0, y: 0, width: 10, height: 10 },
+      })
+    ).rejects.toMatchObject({ code: "CANVAS_UNAVAILABLE" });
+  });
+
+  it("should reject with EncodeError when the canvas can't be encoded", async () => {
+    const { toBlob } = mockCanvas();
+    toBlob.mockImplementation((callback) => callback(null));
+
+    await expect(
+      cropImage(createMockImage(100, 100), {
+        rect: { x: 0, y: 0, width: 10, height: 10 },
+      })
+    ).rejects.toBeInstanceOf(EncodeError);
+  });
+
+  it("should keep a stable code and name on every error", () => {
+    const error = new CanvasUnavailableError();
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("CanvasUnavailableError");
+    expect(new CropCancelledError().message).toBe("User cancelled");
   });
 });